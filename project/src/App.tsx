@@ -1,33 +1,284 @@
-import React, { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Header } from './components/Header';
 import { FileUpload } from './components/FileUpload';
 import { AlgorithmSelector } from './components/AlgorithmSelector';
 import { CompressionProgress } from './components/CompressionProgress';
 import { CompressionResults } from './components/CompressionResults';
-import { huffmanCompress, rleCompress, lz77Compress, decompressData } from './utils/compressionAlgorithms';
-import { FileInfo, CompressionResult, CompressionAlgorithm, ProcessingProgress } from './types';
+import { DecompressionResults } from './components/DecompressionResults';
+import { ComparisonResults } from './components/ComparisonResults';
+import { BatchQueue } from './components/BatchQueue';
+import { ZipBrowser } from './components/ZipBrowser';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { HuffmanTreeView } from './components/HuffmanTreeView';
+import { Lz77Visualizer } from './components/Lz77Visualizer';
+import { BenchmarkPanel } from './components/BenchmarkPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import {
+  startCompressionJob,
+  startBlockCompressionJob,
+  startComparisonJob,
+  startDecompressionJob,
+  startZipJob,
+  startZipExtractJob,
+  startBenchmarkJob,
+  ComparisonJobOutput,
+  JobCancelledError,
+  WorkerJob
+} from './utils/compressionWorkerClient';
+import { DEFAULT_BLOCK_SIZE, identifyCompressedFile, readFileInfo } from './utils/streamingCompression';
+import { isZipFile, readZipDirectory } from './utils/zip';
+import { ARCHIVE_EXTENSION } from './utils/archiveFormat';
+import { getCodec, listStandardFormats, resolveCodecOptions } from './utils/codecRegistry';
+import { CompressionQueue, DEFAULT_BATCH_OPTIONS } from './utils/batchQueue';
+import { DEFAULT_BENCHMARK_CONFIG, benchmarkToCsv } from './utils/benchmark';
+import { CompressionHistory, DEFAULT_HISTORY_QUOTA, historyEntrySource } from './utils/compressionHistory';
+import { compressionRatio } from './utils/compressionRatio';
+import {
+  AlgorithmParameters,
+  FileInfo,
+  CompressionResult,
+  CompressionAlgorithm,
+  ComparisonEntry,
+  ProcessingProgress,
+  RestoredFile,
+  BatchJob,
+  BatchQueueOptions,
+  BenchmarkConfig,
+  BenchmarkRow,
+  HistoryEntry,
+  NewHistoryEntry,
+  ZipEntry
+} from './types';
 
-type AppState = 'upload' | 'algorithm' | 'processing' | 'results';
+type Workflow = 'compress' | 'decompress' | 'benchmark';
+type AppState = 'upload' | 'algorithm' | 'processing' | 'results' | 'restoring' | 'restored' | 'batch' | 'browsing' | 'benchmark';
+/** What the processing screen is running: one codec, every codec, or a ZIP of the batch */
+type CompressMode = 'single' | 'compare' | 'zip';
+
+const workflowSteps: Record<Workflow, AppState[]> = {
+  compress: ['upload', 'algorithm', 'processing', 'results'],
+  decompress: ['upload', 'restoring', 'restored'],
+  // One screen, so no steps to show
+  benchmark: []
+};
+
+const workflowLabels: Record<Workflow, string> = {
+  compress: 'Compress a file',
+  decompress: 'Decompress a file',
+  benchmark: 'Benchmark'
+};
+
+const initialProgress: ProcessingProgress = {
+  stage: 'Initializing',
+  progress: 0,
+  message: 'Preparing compression...'
+};
+
+function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+const compressionHistory = new CompressionHistory();
+
+// e.g. "gzip, zlib or lz4"
+function joinAlternatives(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}` : items.join('');
+}
 
 function App() {
+  const [workflow, setWorkflow] = useState<Workflow>('compress');
   const [currentState, setCurrentState] = useState<AppState>('upload');
   const [selectedFile, setSelectedFile] = useState<FileInfo | null>(null);
   const [selectedAlgorithm, setSelectedAlgorithm] = useState<CompressionAlgorithm>('huffman');
+  const [algorithmOptions, setAlgorithmOptions] = useState<AlgorithmParameters>(() => resolveCodecOptions(getCodec('huffman')));
   const [compressionResult, setCompressionResult] = useState<CompressionResult | null>(null);
-  const [processingProgress, setProcessingProgress] = useState<ProcessingProgress>({
-    stage: 'Initializing',
-    progress: 0,
-    message: 'Preparing compression...'
-  });
+  const [compressedArchive, setCompressedArchive] = useState<Blob | null>(null);
+  const [archiveName, setArchiveName] = useState('');
+  const [compressMode, setCompressMode] = useState<CompressMode>('single');
+  const [comparison, setComparison] = useState<ComparisonJobOutput | null>(null);
+  const [processingProgress, setProcessingProgress] = useState<ProcessingProgress>(initialProgress);
+  const [restoredFile, setRestoredFile] = useState<RestoredFile | null>(null);
   const [hasError, setHasError] = useState(false);
+  const [uploadError, setUploadError] = useState('');
+  const [batchFiles, setBatchFiles] = useState<FileInfo[]>([]);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchOptions, setBatchOptions] = useState<BatchQueueOptions>(DEFAULT_BATCH_OPTIONS);
+  const [batchZipping, setBatchZipping] = useState(false);
+  const [zipEntries, setZipEntries] = useState<ZipEntry[]>([]);
+  const [zipBusyEntry, setZipBusyEntry] = useState<ZipEntry | null>(null);
+  const [zipError, setZipError] = useState('');
+  const [benchmarkConfig, setBenchmarkConfig] = useState<BenchmarkConfig>(DEFAULT_BENCHMARK_CONFIG);
+  // Kept with the settings it ran with, which the CSV records even after the form changes
+  const [benchmarkRun, setBenchmarkRun] = useState<{ config: BenchmarkConfig; rows: BenchmarkRow[] } | null>(null);
+  const [benchmarkRunning, setBenchmarkRunning] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [historyQuota, setHistoryQuota] = useState(DEFAULT_HISTORY_QUOTA);
+  const [historyError, setHistoryError] = useState('');
+  const activeJob = useRef<WorkerJob<unknown> | null>(null);
+  const batchQueue = useRef<CompressionQueue | null>(null);
 
-  const handleFileSelect = (file: FileInfo) => {
+  const batchRunning = batchJobs.some(job => job.status === 'queued' || job.status === 'running');
+  // A batch has no single processing screen, so it lights the steps by its own progress
+  const currentStep: AppState = currentState === 'batch'
+    ? (batchRunning ? 'processing' : 'results')
+    : currentState === 'browsing' ? 'restored' : currentState;
+
+  const describeHistoryError = (error: unknown) =>
+    `History is unavailable: ${error instanceof Error ? error.message : String(error)}`;
+
+  useEffect(() => {
+    Promise.all([compressionHistory.list(), compressionHistory.getQuota()])
+      .then(([entries, quota]) => {
+        setHistoryEntries(entries);
+        setHistoryQuota(quota);
+      })
+      .catch(error => setHistoryError(describeHistoryError(error)));
+  }, []);
+
+  const refreshHistory = async () => setHistoryEntries(await compressionHistory.list());
+
+  // Runs alongside the results screen; a failure to store only shows in the history panel
+  const recordHistory = async (entry: NewHistoryEntry) => {
+    try {
+      const stored = await compressionHistory.add(entry);
+      setHistoryError(stored ? '' : `${entry.outputName} is larger than the history quota and was not kept`);
+      await refreshHistory();
+    } catch (error) {
+      setHistoryError(describeHistoryError(error));
+    }
+  };
+
+  const compressionHistoryEntry = (
+    file: FileInfo,
+    result: CompressionResult,
+    archive: Blob,
+    outputName: string
+  ): NewHistoryEntry => ({
+    kind: 'compress',
+    createdAt: Date.now(),
+    fileName: file.name,
+    algorithm: result.algorithmId,
+    algorithmName: result.algorithm,
+    parameters: result.parameters,
+    originalSize: result.originalSize,
+    compressedSize: result.compressedSize,
+    compressionRatio: result.compressionRatio,
+    processingTime: result.processingTime,
+    verified: result.verified,
+    output: archive,
+    outputName,
+    original: file.file
+  });
+
+  const handleFileSelectForCompression = (file: FileInfo) => {
     setSelectedFile(file);
+    setBatchFiles([]);
+    setUploadError('');
     setCurrentState('algorithm');
   };
 
+  const handleFileSelect = (file: FileInfo) => {
+    if (workflow === 'decompress') {
+      setSelectedFile(file);
+      setUploadError('');
+      startRestore(file);
+    } else {
+      handleFileSelectForCompression(file);
+    }
+  };
+
+  const handleFilesSelect = (files: FileInfo[]) => {
+    setSelectedFile(null);
+    setBatchFiles(files);
+    setUploadError('');
+    setCurrentState('algorithm');
+  };
+
+  const startRestore = async (file: FileInfo) => {
+    try {
+      // A ZIP holds many files, so it is browsed instead of restored as one
+      if (await isZipFile(file.file)) {
+        setZipEntries(await readZipDirectory(file.file));
+        setZipError('');
+        setCurrentState('browsing');
+        return;
+      }
+
+      // Identify the container and codec before committing to a full decode
+      const detected = await identifyCompressedFile(file.file, file.name);
+      setProcessingProgress({
+        stage: 'Initializing',
+        progress: 0,
+        message: `Detected ${getCodec(detected.algorithm).info.name} ${detected.format === 'dcpa' ? 'archive' : `${detected.format} stream`} of ${detected.fileName}`
+      });
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'This file is not a recognised archive.');
+      return;
+    }
+
+    setCurrentState('restoring');
+    setHasError(false);
+
+    const job = startDecompressionJob(file.file, file.name, setProcessingProgress);
+    activeJob.current = job;
+    const startTime = performance.now();
+
+    try {
+      const restored = await job.promise;
+      setRestoredFile(restored);
+      setCurrentState('restored');
+
+      const { header } = restored;
+      recordHistory({
+        kind: 'decompress',
+        createdAt: Date.now(),
+        fileName: file.name,
+        algorithm: header.algorithm,
+        algorithmName: getCodec(header.algorithm).info.name,
+        parameters: header.parameters,
+        originalSize: header.originalSize,
+        compressedSize: file.size,
+        compressionRatio: compressionRatio(header.originalSize, file.size),
+        processingTime: performance.now() - startTime,
+        verified: restored.checksumValid,
+        output: restored.data,
+        outputName: header.fileName,
+        original: null
+      });
+    } catch (error) {
+      if (error instanceof JobCancelledError) return;
+      console.error('Decompression failed:', error);
+      setHasError(true);
+      setProcessingProgress({
+        stage: 'Error',
+        progress: 0,
+        message: error instanceof Error ? error.message : 'Decompression failed.'
+      });
+    } finally {
+      if (activeJob.current === job) activeJob.current = null;
+    }
+  };
+
+  const handleWorkflowChange = (next: Workflow) => {
+    if (benchmarkRunning) cancelBenchmark();
+    setWorkflow(next);
+    setSelectedFile(null);
+    setUploadError('');
+    setHasError(false);
+    setCurrentState(next === 'benchmark' ? 'benchmark' : 'upload');
+  };
+
+  // Settings do not carry over between codecs; each starts from its own defaults
   const handleAlgorithmChange = (algorithm: CompressionAlgorithm) => {
+    if (algorithm !== selectedAlgorithm) setAlgorithmOptions(resolveCodecOptions(getCodec(algorithm)));
     setSelectedAlgorithm(algorithm);
   };
 
@@ -35,34 +286,26 @@ function App() {
     if (!selectedFile) return;
 
     setCurrentState('processing');
+    setCompressMode('single');
     setHasError(false);
+    setProcessingProgress(initialProgress);
     
+    const job = selectedFile.data
+      ? startCompressionJob(selectedAlgorithm, algorithmOptions, selectedFile.data, selectedFile.name, setProcessingProgress)
+      : startBlockCompressionJob(selectedAlgorithm, algorithmOptions, selectedFile.file, selectedFile.name, DEFAULT_BLOCK_SIZE, setProcessingProgress);
+    activeJob.current = job;
+
     try {
-      const fileData = typeof selectedFile.data === 'string' 
-        ? selectedFile.data.includes('base64,') 
-          ? atob(selectedFile.data.split(',')[1])
-          : selectedFile.data
-        : new TextDecoder().decode(selectedFile.data as ArrayBuffer);
-
-      let result: CompressionResult;
-
-      switch (selectedAlgorithm) {
-        case 'huffman':
-          result = huffmanCompress(fileData, setProcessingProgress);
-          break;
-        case 'rle':
-          result = rleCompress(fileData, setProcessingProgress);
-          break;
-        case 'lz77':
-          result = lz77Compress(fileData, setProcessingProgress);
-          break;
-        default:
-          throw new Error('Unsupported algorithm');
-      }
+      const { result, archive, archiveName } = await job.promise;
 
       setCompressionResult(result);
+      setCompressedArchive(archive);
+      setArchiveName(archiveName);
       setCurrentState('results');
+
+      recordHistory(compressionHistoryEntry(selectedFile, result, archive, archiveName));
     } catch (error) {
+      if (error instanceof JobCancelledError) return;
       console.error('Compression failed:', error);
       setHasError(true);
       setProcessingProgress({
@@ -70,56 +313,361 @@ function App() {
         progress: 0,
         message: 'Compression failed. Please try again.'
       });
+    } finally {
+      if (activeJob.current === job) activeJob.current = null;
     }
   };
 
-  const handleDownload = () => {
-    if (!compressionResult || !selectedFile) return;
+  // Runs every available codec on the file; needs the bytes in memory
+  const startComparison = async () => {
+    if (!selectedFile?.data) return;
+
+    setCurrentState('processing');
+    setCompressMode('compare');
+    setHasError(false);
+    setProcessingProgress(initialProgress);
+
+    const job = startComparisonJob(selectedFile.data, selectedFile.name, setProcessingProgress);
+    activeJob.current = job;
+
+    try {
+      const output = await job.promise;
+      setComparison(output);
+      setCompressionResult(null);
+      setCurrentState('results');
+
+      // The run is kept as its winner: the smallest output that round-tripped
+      const winner = output.entries
+        .filter(entry => entry.result && entry.roundTrip)
+        .reduce<ComparisonEntry | null>((best, entry) => !best || entry.result!.compressedSize < best.result!.compressedSize ? entry : best, null);
+      if (winner) {
+        recordHistory({
+          ...compressionHistoryEntry(selectedFile, winner.result!, winner.archive!, winner.archiveName!),
+          kind: 'compare',
+          algorithmName: `${winner.name} (best of ${output.entries.length})`,
+          verified: winner.roundTrip
+        });
+      }
+    } catch (error) {
+      if (error instanceof JobCancelledError) return;
+      console.error('Comparison failed:', error);
+      setHasError(true);
+      setProcessingProgress({
+        stage: 'Error',
+        progress: 0,
+        message: 'Comparison failed. Please try again.'
+      });
+    } finally {
+      if (activeJob.current === job) activeJob.current = null;
+    }
+  };
+
+  // Bundles the batch's original files into one standard ZIP instead of compressing each
+  const startZip = async () => {
+    if (batchFiles.length === 0) return;
+
+    setCurrentState('processing');
+    setCompressMode('zip');
+    setHasError(false);
+    setProcessingProgress(initialProgress);
+
+    const files = batchFiles.map(({ name, file, lastModified }) => ({ name, data: file, lastModified }));
+    const job = startZipJob(files, 'deflated', 'archive.zip', setProcessingProgress);
+    activeJob.current = job;
+
+    try {
+      const { result, archive, archiveName } = await job.promise;
+      setCompressionResult(result);
+      setCompressedArchive(archive);
+      setArchiveName(archiveName);
+      setCurrentState('results');
+
+      recordHistory({
+        kind: 'zip',
+        createdAt: Date.now(),
+        fileName: `${files.length} files`,
+        algorithm: result.algorithmId,
+        algorithmName: result.algorithm,
+        parameters: result.parameters,
+        originalSize: result.originalSize,
+        compressedSize: result.compressedSize,
+        compressionRatio: result.compressionRatio,
+        processingTime: result.processingTime,
+        verified: result.verified,
+        output: archive,
+        outputName: archiveName,
+        original: null
+      });
+    } catch (error) {
+      if (error instanceof JobCancelledError) return;
+      console.error('Zipping failed:', error);
+      setHasError(true);
+      setProcessingProgress({
+        stage: 'Error',
+        progress: 0,
+        message: error instanceof Error ? error.message : 'Creating the ZIP archive failed.'
+      });
+    } finally {
+      if (activeJob.current === job) activeJob.current = null;
+    }
+  };
 
-    const blob = new Blob([compressionResult.compressedData as string], {
-      type: 'application/octet-stream'
+  const startBatch = () => {
+    if (batchFiles.length === 0) return;
+
+    const queue = new CompressionQueue(setBatchJobs, batchOptions, job => {
+      recordHistory(compressionHistoryEntry(job.file, job.result!, job.archive!, job.archiveName!));
     });
-    
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${selectedFile.name.split('.')[0]}_compressed.dat`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    batchQueue.current = queue;
+    queue.add(batchFiles, selectedAlgorithm, algorithmOptions);
+    setCurrentState('batch');
+  };
+
+  const handleBatchOptionsChange = (options: BatchQueueOptions) => {
+    setBatchOptions(options);
+    batchQueue.current?.setOptions(options);
+  };
+
+  const handleBatchDownload = (job: BatchJob) => {
+    if (!job.archive || !job.archiveName) return;
+    saveBlob(job.archive, job.archiveName);
+  };
+
+  // The outputs are already compressed, so they are stored rather than deflated again
+  const handleBatchDownloadAll = async () => {
+    const files = batchJobs
+      .filter(job => job.status === 'done')
+      .map(job => ({ name: job.archiveName!, data: job.archive!, lastModified: Date.now() }));
+    if (files.length === 0) return;
+
+    setBatchZipping(true);
+    try {
+      const { archive } = await startZipJob(files, 'stored', 'compressed-files.zip').promise;
+      saveBlob(archive, 'compressed-files.zip');
+    } catch (error) {
+      console.error('Zipping failed:', error);
+      alert('Creating the ZIP archive failed.');
+    } finally {
+      setBatchZipping(false);
+    }
+  };
+
+  const extractEntry = async (entry: ZipEntry): Promise<Blob> => {
+    setZipBusyEntry(entry);
+    const job = startZipExtractJob(selectedFile!.file, entry);
+    activeJob.current = job;
+    try {
+      return await job.promise;
+    } finally {
+      if (activeJob.current === job) activeJob.current = null;
+      setZipBusyEntry(null);
+    }
+  };
+
+  const handleZipExtract = async (entry: ZipEntry) => {
+    setZipError('');
+    try {
+      saveBlob(await extractEntry(entry), entry.name.split('/').pop()!);
+    } catch (error) {
+      if (error instanceof JobCancelledError) return;
+      setZipError(error instanceof Error ? error.message : 'Extraction failed.');
+    }
+  };
+
+  // Extracts the entries and hands them to the compress workflow as if they had been uploaded
+  const handleZipRecompress = async (entries: ZipEntry[]) => {
+    setZipError('');
+    const files: FileInfo[] = [];
+    try {
+      for (const entry of entries) {
+        const data = await extractEntry(entry);
+        const name = entry.name.split('/').pop()!;
+        files.push(await readFileInfo(new File([data], name, { lastModified: entry.lastModified })));
+      }
+    } catch (error) {
+      if (error instanceof JobCancelledError) return;
+      setZipError(error instanceof Error ? error.message : 'Extraction failed.');
+      return;
+    }
+
+    setWorkflow('compress');
+    setZipEntries([]);
+    if (files.length === 1) {
+      handleFileSelectForCompression(files[0]);
+    } else {
+      handleFilesSelect(files);
+    }
+  };
+
+  const startBenchmark = async () => {
+    const config = benchmarkConfig;
+    setBenchmarkRunning(true);
+    setHasError(false);
+    setProcessingProgress({ stage: 'Initializing', progress: 0, message: 'Generating test corpora...' });
+
+    const job = startBenchmarkJob(config, setProcessingProgress);
+    activeJob.current = job;
+
+    try {
+      setBenchmarkRun({ config, rows: await job.promise });
+    } catch (error) {
+      if (error instanceof JobCancelledError) return;
+      console.error('Benchmark failed:', error);
+      setHasError(true);
+      setProcessingProgress({
+        stage: 'Error',
+        progress: 0,
+        message: error instanceof Error ? error.message : 'The benchmark failed.'
+      });
+    } finally {
+      if (activeJob.current === job) activeJob.current = null;
+      setBenchmarkRunning(false);
+    }
+  };
+
+  const cancelBenchmark = () => {
+    activeJob.current?.cancel();
+    activeJob.current = null;
+    setBenchmarkRunning(false);
   };
 
-  const handleDecompress = () => {
-    if (!compressionResult) return;
+  const handleBenchmarkExport = () => {
+    if (!benchmarkRun) return;
+    const csv = benchmarkToCsv(benchmarkRun.rows, benchmarkRun.config);
+    saveBlob(new Blob([csv], { type: 'text/csv' }), `benchmark-seed-${benchmarkRun.config.seed}.csv`);
+  };
+
+  const handleHistoryDownload = (entry: HistoryEntry) => {
+    saveBlob(entry.output, entry.outputName);
+  };
+
+  // Loads the entry's uncompressed data as a fresh upload, so any algorithm can be picked for it
+  const handleHistoryRerun = async (entry: HistoryEntry) => {
+    const source = historyEntrySource(entry);
+    if (!source) return;
+
+    const name = entry.kind === 'decompress' ? entry.outputName : entry.fileName;
+    try {
+      const file = await readFileInfo(new File([source], name, { type: source.type }));
+      setWorkflow('compress');
+      handleFileSelectForCompression(file);
+    } catch (error) {
+      setHistoryError(describeHistoryError(error));
+    }
+  };
+
+  const handleHistoryDelete = async (entry: HistoryEntry) => {
+    try {
+      await compressionHistory.remove(entry.id);
+      await refreshHistory();
+    } catch (error) {
+      setHistoryError(describeHistoryError(error));
+    }
+  };
+
+  const handleHistoryClear = async () => {
+    if (!confirm(`Delete all ${historyEntries.length} jobs from the history?`)) return;
+    try {
+      await compressionHistory.clear();
+      await refreshHistory();
+    } catch (error) {
+      setHistoryError(describeHistoryError(error));
+    }
+  };
 
+  // Lowering the quota evicts the oldest jobs straight away
+  const handleHistoryQuotaChange = async (quota: number) => {
     try {
-      const decompressed = decompressData(
-        compressionResult.compressedData as string,
-        compressionResult.algorithm
-      );
+      await compressionHistory.setQuota(quota);
+      setHistoryQuota(quota);
+      await refreshHistory();
+    } catch (error) {
+      setHistoryError(describeHistoryError(error));
+    }
+  };
+
+  const cancelCompression = () => {
+    activeJob.current?.cancel();
+    activeJob.current = null;
+    setHasError(false);
+    setCurrentState(workflow === 'decompress' ? 'upload' : 'algorithm');
+  };
+
+  const handleRestoredDownload = () => {
+    if (!restoredFile) return;
+    saveBlob(restoredFile.data, restoredFile.header.fileName);
+  };
+
+  const handleDownload = () => {
+    // ZIPs are built from the batch list, with no single selected file
+    if (!compressedArchive) return;
+
+    saveBlob(compressedArchive, archiveName);
+  };
+
+  const handleComparisonDownload = (entry: ComparisonEntry) => {
+    if (!entry.archive || !entry.archiveName) return;
+    saveBlob(entry.archive, entry.archiveName);
+  };
+
+  const handleDecompress = async () => {
+    if (!compressedArchive || !selectedFile) return;
+
+    try {
+      const { header, data, checksumValid } = await startDecompressionJob(compressedArchive, archiveName).promise;
+
+      if (!checksumValid) {
+        alert('Warning: the decompressed data does not match the original checksum.');
+      }
       
-      const blob = new Blob([decompressed], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${selectedFile?.name.split('.')[0]}_decompressed.txt`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      saveBlob(new Blob([data], { type: selectedFile.type || 'application/octet-stream' }), header.fileName);
     } catch (error) {
+      console.error('Decompression failed:', error);
       alert('Decompression failed. This algorithm may not support decompression.');
     }
   };
 
   const resetApp = () => {
+    activeJob.current?.cancel();
+    activeJob.current = null;
+    batchQueue.current?.cancelAll();
+    batchQueue.current = null;
     setCurrentState('upload');
     setSelectedFile(null);
+    setBatchFiles([]);
+    setBatchJobs([]);
     setCompressionResult(null);
+    setCompressedArchive(null);
+    setComparison(null);
+    setCompressMode('single');
+    setZipEntries([]);
+    setZipError('');
+    setRestoredFile(null);
     setHasError(false);
+    setUploadError('');
   };
 
+  // Switches between the three things the portal does; shown on the upload and benchmark screens
+  const workflowToggle = (
+    <div className="flex justify-center">
+      <div className="inline-flex p-1 bg-gray-100 dark:bg-gray-800 rounded-lg">
+        {(Object.keys(workflowLabels) as Workflow[]).map((mode) => (
+          <button
+            key={mode}
+            onClick={() => handleWorkflowChange(mode)}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              workflow === mode
+                ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+            }`}
+          >
+            {workflowLabels[mode]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <Header />
@@ -131,21 +679,21 @@ function App() {
             animate={{ opacity: 1, y: 0 }}
             className="flex justify-center space-x-4 mb-6"
           >
-            {['upload', 'algorithm', 'processing', 'results'].map((step, index) => (
+            {workflowSteps[workflow].map((step, index, steps) => (
               <div key={step} className="flex items-center">
                 <div className={`
                   flex items-center justify-center w-8 h-8 rounded-full text-sm font-medium
-                  ${(['upload', 'algorithm', 'processing', 'results'].indexOf(currentState) >= index)
+                  ${(steps.indexOf(currentStep) >= index)
                     ? 'bg-blue-500 text-white'
                     : 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
                   }
                 `}>
                   {index + 1}
                 </div>
-                {index < 3 && (
+                {index < steps.length - 1 && (
                   <div className={`
                     w-12 h-0.5 mx-2
-                    ${(['upload', 'algorithm', 'processing', 'results'].indexOf(currentState) > index)
+                    ${(steps.indexOf(currentStep) > index)
                       ? 'bg-blue-500'
                       : 'bg-gray-200 dark:bg-gray-700'
                     }
@@ -167,17 +715,39 @@ function App() {
             >
               <div className="text-center mb-8">
                 <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
-                  Upload Your File
+                  {workflow === 'compress' ? 'Upload Your File' : 'Upload a Compressed File'}
                 </h2>
                 <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto">
-                  Select a file to compress using advanced algorithms. Supports text files, documents, and various data formats.
+                  {workflow === 'compress'
+                    ? 'Select one or more files to compress using advanced algorithms. Works on any file type, byte for byte: text, documents, images and binaries.'
+                    : `Select a ${ARCHIVE_EXTENSION} archive, or a ${joinAlternatives(listStandardFormats().map(({ format }) => format.name))} file made by any standard tool. The format is detected from its header and the original file is restored and verified. ZIP archives open in a browser where entries can be extracted or re-compressed.`}
                 </p>
               </div>
+
+              {workflowToggle}
               
               <FileUpload
+                key={workflow}
                 onFileSelect={handleFileSelect}
-                acceptedTypes={['text', '.txt', '.json', '.csv', '.log']}
-                maxSize={50 * 1024 * 1024} // 50MB
+                onFilesSelect={workflow === 'compress' ? handleFilesSelect : undefined}
+                maxSize={1024 * 1024 * 1024} // 1GB, files over 16MB are streamed in blocks
+              />
+
+              {uploadError && (
+                <p className="text-center text-sm text-red-600 dark:text-red-400">
+                  {uploadError}
+                </p>
+              )}
+
+              <HistoryPanel
+                entries={historyEntries}
+                quota={historyQuota}
+                onQuotaChange={handleHistoryQuotaChange}
+                onDownload={handleHistoryDownload}
+                onRerun={handleHistoryRerun}
+                onDelete={handleHistoryDelete}
+                onClear={handleHistoryClear}
+                error={historyError}
               />
             </motion.div>
           )}
@@ -195,13 +765,17 @@ function App() {
                   Choose Algorithm
                 </h2>
                 <p className="text-lg text-gray-600 dark:text-gray-400">
-                  Select the compression algorithm that best suits your file type.
+                  {batchFiles.length > 0
+                    ? `Select the compression algorithm to apply to all ${batchFiles.length} files.`
+                    : 'Select the compression algorithm that best suits your file type.'}
                 </p>
               </div>
               
               <AlgorithmSelector
                 selectedAlgorithm={selectedAlgorithm}
                 onAlgorithmChange={handleAlgorithmChange}
+                options={algorithmOptions}
+                onOptionsChange={setAlgorithmOptions}
               />
               
               <div className="flex justify-center space-x-4 mt-8">
@@ -213,14 +787,48 @@ function App() {
                 >
                   Back
                 </motion.button>
-                <motion.button
-                  onClick={startCompression}
-                  className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                >
-                  Start Compression
-                </motion.button>
+                {batchFiles.length > 0 ? (
+                  <>
+                    <motion.button
+                      onClick={startZip}
+                      title="Bundle the original files into one standard .zip, deflating each entry"
+                      className="px-6 py-3 bg-gray-700 hover:bg-gray-800 text-white rounded-lg font-medium transition-colors"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      Create ZIP Archive
+                    </motion.button>
+                    <motion.button
+                      onClick={startBatch}
+                      className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      Compress {batchFiles.length} Files
+                    </motion.button>
+                  </>
+                ) : (
+                  <>
+                    <motion.button
+                      onClick={startComparison}
+                      disabled={!selectedFile?.data}
+                      title={selectedFile?.data ? undefined : 'Compare mode holds the file in memory, so it is limited to files up to 16MB'}
+                      className="px-6 py-3 bg-gray-700 hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+                      whileHover={selectedFile?.data ? { scale: 1.02 } : undefined}
+                      whileTap={selectedFile?.data ? { scale: 0.98 } : undefined}
+                    >
+                      Compare All Algorithms
+                    </motion.button>
+                    <motion.button
+                      onClick={startCompression}
+                      className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      Start Compression
+                    </motion.button>
+                  </>
+                )}
               </div>
             </motion.div>
           )}
@@ -238,7 +846,11 @@ function App() {
                   Processing File
                 </h2>
                 <p className="text-lg text-gray-600 dark:text-gray-400">
-                  Applying {selectedAlgorithm.charAt(0).toUpperCase() + selectedAlgorithm.slice(1)} compression...
+                  {compressMode === 'compare'
+                    ? `Running every available algorithm on ${selectedFile?.name}...`
+                    : compressMode === 'zip'
+                      ? `Adding ${batchFiles.length} files to a ZIP archive...`
+                      : `Applying ${getCodec(selectedAlgorithm).info.name} compression...`}
                 </p>
               </div>
               
@@ -248,7 +860,7 @@ function App() {
                 hasError={hasError}
               />
               
-              {hasError && (
+              {hasError ? (
                 <div className="flex justify-center mt-6">
                   <motion.button
                     onClick={resetApp}
@@ -259,7 +871,189 @@ function App() {
                     Start Over
                   </motion.button>
                 </div>
+              ) : (
+                <div className="flex justify-center mt-6">
+                  <motion.button
+                    onClick={cancelCompression}
+                    className="px-6 py-3 bg-gray-500 hover:bg-gray-600 text-white rounded-lg font-medium transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Cancel
+                  </motion.button>
+                </div>
+              )}
+            </motion.div>
+          )}
+
+          {currentState === 'batch' && (
+            <motion.div
+              key="batch"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              className="space-y-6"
+            >
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
+                  {batchRunning ? 'Compressing Files' : 'Batch Complete'}
+                </h2>
+                <p className="text-lg text-gray-600 dark:text-gray-400">
+                  Applying {getCodec(selectedAlgorithm).info.name} to {batchJobs.length} files, {batchOptions.concurrency} at a time.
+                </p>
+              </div>
+
+              <BatchQueue
+                jobs={batchJobs}
+                options={batchOptions}
+                onOptionsChange={handleBatchOptionsChange}
+                onCancel={(id) => batchQueue.current?.cancel(id)}
+                onRetry={(id) => batchQueue.current?.retry(id)}
+                onRetryFailed={() => batchQueue.current?.retryFailed()}
+                onDownload={handleBatchDownload}
+                onDownloadAll={handleBatchDownloadAll}
+                downloadingAll={batchZipping}
+              />
+
+              <div className="flex justify-center space-x-4 mt-8">
+                {batchRunning && (
+                  <motion.button
+                    onClick={() => batchQueue.current?.cancelAll()}
+                    className="px-6 py-3 bg-gray-500 hover:bg-gray-600 text-white rounded-lg font-medium transition-colors"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                  >
+                    Cancel Remaining
+                  </motion.button>
+                )}
+                <motion.button
+                  onClick={resetApp}
+                  className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  {batchRunning ? 'Start Over' : 'Compress More Files'}
+                </motion.button>
+              </div>
+            </motion.div>
+          )}
+
+          {currentState === 'browsing' && selectedFile && (
+            <motion.div
+              key="browsing"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              className="space-y-6"
+            >
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
+                  ZIP Archive
+                </h2>
+                <p className="text-lg text-gray-600 dark:text-gray-400">
+                  Extract entries, or select some to re-compress with the portal's own algorithms.
+                </p>
+              </div>
+
+              <ZipBrowser
+                archiveName={selectedFile.name}
+                archiveSize={selectedFile.size}
+                entries={zipEntries}
+                busyEntry={zipBusyEntry}
+                onExtract={handleZipExtract}
+                onRecompress={handleZipRecompress}
+              />
+
+              {zipError && (
+                <p className="text-center text-sm text-red-600 dark:text-red-400">
+                  {zipError}
+                </p>
               )}
+
+              <div className="flex justify-center mt-8">
+                <motion.button
+                  onClick={resetApp}
+                  className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  Open Another File
+                </motion.button>
+              </div>
+            </motion.div>
+          )}
+
+          {currentState === 'restoring' && (
+            <motion.div
+              key="restoring"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              className="space-y-6"
+            >
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
+                  Restoring File
+                </h2>
+                <p className="text-lg text-gray-600 dark:text-gray-400">
+                  Decoding {selectedFile?.name}...
+                </p>
+              </div>
+              
+              <CompressionProgress
+                progress={processingProgress}
+                isComplete={false}
+                hasError={hasError}
+              />
+              
+              <div className="flex justify-center mt-6">
+                <motion.button
+                  onClick={hasError ? resetApp : cancelCompression}
+                  className={`px-6 py-3 text-white rounded-lg font-medium transition-colors ${
+                    hasError ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-500 hover:bg-gray-600'
+                  }`}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  {hasError ? 'Start Over' : 'Cancel'}
+                </motion.button>
+              </div>
+            </motion.div>
+          )}
+
+          {currentState === 'restored' && restoredFile && selectedFile && (
+            <motion.div
+              key="restored"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              className="space-y-6"
+            >
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
+                  Decompression Complete
+                </h2>
+                <p className="text-lg text-gray-600 dark:text-gray-400">
+                  {selectedFile.name} has been restored.
+                </p>
+              </div>
+              
+              <DecompressionResults
+                restored={restoredFile}
+                archiveSize={selectedFile.size}
+                onDownload={handleRestoredDownload}
+              />
+              
+              <div className="flex justify-center mt-8">
+                <motion.button
+                  onClick={resetApp}
+                  className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  Decompress Another File
+                </motion.button>
+              </div>
             </motion.div>
           )}
 
@@ -276,15 +1070,42 @@ function App() {
                   Compression Complete
                 </h2>
                 <p className="text-lg text-gray-600 dark:text-gray-400">
-                  Your file has been processed using {compressionResult.algorithm}.
+                  {compressMode === 'zip'
+                    ? `${batchFiles.length} files were bundled into ${archiveName}.`
+                    : `Your file has been processed using ${compressionResult.algorithm}.`}
                 </p>
               </div>
               
               <CompressionResults
                 result={compressionResult}
                 onDownload={handleDownload}
-                onDecompress={compressionResult.algorithm !== 'Huffman Coding' ? handleDecompress : undefined}
+                onDecompress={compressMode === 'zip' ? undefined : handleDecompress}
               />
+
+              {compressionResult.analysis && (
+                <AnalysisPanel
+                  analysis={compressionResult.analysis}
+                  achieved={[{ name: compressionResult.algorithm, size: compressionResult.compressedSize }]}
+                />
+              )}
+
+              {compressionResult.algorithmId === 'huffman' && compressionResult.analysis && (
+                <HuffmanTreeView
+                  counts={compressionResult.analysis.histogram}
+                  blocked={compressionResult.blockCount !== undefined}
+                />
+              )}
+
+              {compressionResult.algorithmId === 'lz77' && compressionResult.originalData && (
+                <Lz77Visualizer
+                  data={compressionResult.originalData}
+                  options={{
+                    windowSize: Number(compressionResult.parameters.windowSize),
+                    lookAheadSize: Number(compressionResult.parameters.lookAheadSize),
+                    maxChainDepth: Number(compressionResult.parameters.maxChainDepth)
+                  }}
+                />
+              )}
               
               <div className="flex justify-center mt-8">
                 <motion.button
@@ -298,6 +1119,85 @@ function App() {
               </div>
             </motion.div>
           )}
+
+          {currentState === 'results' && compressMode === 'compare' && comparison && (
+            <motion.div
+              key="comparison"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              className="space-y-6"
+            >
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
+                  Comparison Complete
+                </h2>
+                <p className="text-lg text-gray-600 dark:text-gray-400">
+                  Every available algorithm was run on {selectedFile?.name} and its output decoded again to verify it.
+                </p>
+              </div>
+
+              <ComparisonResults entries={comparison.entries} onDownload={handleComparisonDownload} />
+
+              <AnalysisPanel
+                analysis={comparison.analysis}
+                achieved={comparison.entries
+                  .filter(entry => entry.result)
+                  .sort((a, b) => a.result!.compressedSize - b.result!.compressedSize)
+                  .map(entry => ({ name: entry.name, size: entry.result!.compressedSize }))}
+              />
+
+              <div className="flex justify-center mt-8">
+                <motion.button
+                  onClick={resetApp}
+                  className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  Compress Another File
+                </motion.button>
+              </div>
+            </motion.div>
+          )}
+
+          {currentState === 'benchmark' && (
+            <motion.div
+              key="benchmark"
+              initial={{ opacity: 0, x: -20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              className="space-y-6"
+            >
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-4">
+                  Benchmark the Algorithms
+                </h2>
+                <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto">
+                  Runs every algorithm several times over reproducible test data, from random bytes to source code, and reports the median compression and decompression times and the ratio each achieves.
+                </p>
+              </div>
+
+              {workflowToggle}
+
+              <BenchmarkPanel
+                config={benchmarkConfig}
+                onConfigChange={setBenchmarkConfig}
+                rows={benchmarkRun?.rows ?? []}
+                running={benchmarkRunning}
+                onRun={startBenchmark}
+                onCancel={cancelBenchmark}
+                onExport={handleBenchmarkExport}
+              />
+
+              {(benchmarkRunning || hasError) && (
+                <CompressionProgress
+                  progress={processingProgress}
+                  isComplete={false}
+                  hasError={hasError}
+                />
+              )}
+            </motion.div>
+          )}
         </AnimatePresence>
       </main>
     </div>
@@ -1,99 +1,167 @@
-import React from 'react';
+import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Zap, Repeat, Binary, Info } from 'lucide-react';
-import { CompressionAlgorithm, AlgorithmInfo } from '../types';
+import { Info, RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { AlgorithmParameters, CodecOption, CompressionAlgorithm } from '../types';
+import { getCodec, isCodecAvailable, listEncoders, resolveCodecOptions } from '../utils/codecRegistry';
 
 interface AlgorithmSelectorProps {
   selectedAlgorithm: CompressionAlgorithm;
   onAlgorithmChange: (algorithm: CompressionAlgorithm) => void;
+  /** Values for every option the selected codec declares */
+  options: AlgorithmParameters;
+  onOptionsChange: (options: AlgorithmParameters) => void;
 }
 
-const algorithmInfo: Record<CompressionAlgorithm, AlgorithmInfo> = {
-  huffman: {
-    name: 'Huffman Coding',
-    description: 'Uses variable-length codes for characters based on frequency. More frequent characters get shorter codes.',
-    complexity: 'O(n log n)',
-    bestFor: ['Text files', 'Source code', 'Natural language'],
-    worstFor: ['Random data', 'Already compressed files', 'Binary data']
-  },
-  rle: {
-    name: 'Run-Length Encoding',
-    description: 'Replaces consecutive identical characters with a count and the character.',
-    complexity: 'O(n)',
-    bestFor: ['Images with large areas of same color', 'Simple graphics', 'Repetitive data'],
-    worstFor: ['Text with no repetition', 'Random data', 'Complex images']
-  },
-  lz77: {
-    name: 'LZ77',
-    description: 'Replaces repeated substrings with references to previous occurrences.',
-    complexity: 'O(n²)',
-    bestFor: ['General text', 'Documents', 'Mixed content'],
-    worstFor: ['Very short files', 'Completely random data']
+interface OptionControlProps {
+  option: CodecOption;
+  value: number | string;
+  onChange: (value: number | string) => void;
+}
+
+function OptionControl({ option, value, onChange }: OptionControlProps) {
+  // Typed numbers are only applied once they leave the field, so a partial entry is not clamped
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (option.type === 'choice') {
+    return (
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-2 py-1 text-sm"
+      >
+        {option.choices.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+      </select>
+    );
   }
-};
 
-const algorithmIcons: Record<CompressionAlgorithm, React.ReactNode> = {
-  huffman: <Zap className="h-5 w-5" />,
-  rle: <Repeat className="h-5 w-5" />,
-  lz77: <Binary className="h-5 w-5" />
-};
+  const commit = (text: string) => {
+    const parsed = Math.round(Number(text));
+    if (text.trim() !== '' && Number.isFinite(parsed)) onChange(Math.min(option.max, Math.max(option.min, parsed)));
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <input
+        type="range"
+        min={option.min}
+        max={option.max}
+        step={option.step ?? 1}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="flex-1"
+        aria-label={option.label}
+      />
+      <input
+        type="number"
+        min={option.min}
+        max={option.max}
+        step={option.step ?? 1}
+        value={draft ?? value}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={(e) => commit(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(e.currentTarget.value); }}
+        className="w-24 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-2 py-1 text-sm text-right"
+      />
+    </div>
+  );
+}
+
+export function AlgorithmSelector({ selectedAlgorithm, onAlgorithmChange, options, onOptionsChange }: AlgorithmSelectorProps) {
+  const selectedCodec = getCodec(selectedAlgorithm);
+  const selectedInfo = selectedCodec.info;
+  const defaults = resolveCodecOptions(selectedCodec);
+  const isDefault = selectedCodec.options.every(option => options[option.key] === defaults[option.key]);
+
+  // Options bounded by another push it along rather than crossing it: raising one
+  // past its limit raises the limit, lowering the limit below it lowers the option
+  const handleOptionChange = (key: string, value: number | string) => {
+    const next = { ...options, [key]: value };
+    for (const option of selectedCodec.options) {
+      if (option.type !== 'number' || !option.atMost) continue;
+      const current = Number(next[option.key] ?? option.default);
+      const limit = Number(next[option.atMost] ?? defaults[option.atMost]);
+      if (current <= limit) continue;
+      if (key === option.key) next[option.atMost] = current;
+      else next[option.key] = limit;
+    }
+    onOptionsChange(next);
+  };
 
-export function AlgorithmSelector({ selectedAlgorithm, onAlgorithmChange }: AlgorithmSelectorProps) {
   return (
     <div className="w-full max-w-2xl mx-auto">
       <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 text-center">
         Choose Compression Algorithm
       </h3>
       
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-        {(Object.keys(algorithmInfo) as CompressionAlgorithm[]).map((algorithm) => (
-          <motion.button
-            key={algorithm}
-            onClick={() => onAlgorithmChange(algorithm)}
-            className={`
-              relative p-4 rounded-xl border-2 transition-all duration-200 text-left
-              ${selectedAlgorithm === algorithm
-                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 shadow-md'
-                : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 bg-white dark:bg-gray-800'
-              }
-            `}
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            <div className="flex items-center space-x-3 mb-2">
-              <div className={`
-                p-2 rounded-lg
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {listEncoders().map((codec) => {
+          const { id: algorithm, info, icon: Icon, capabilities } = codec;
+          const unavailable = !isCodecAvailable(codec);
+
+          return (
+            <motion.button
+              key={algorithm}
+              onClick={() => onAlgorithmChange(algorithm)}
+              disabled={unavailable}
+              className={`
+                relative p-4 rounded-xl border-2 transition-all duration-200 text-left
+                ${unavailable ? 'opacity-50 cursor-not-allowed' : ''}
                 ${selectedAlgorithm === algorithm
-                  ? 'bg-blue-500 text-white'
-                  : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400'
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20 shadow-md'
+                  : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600 bg-white dark:bg-gray-800'
                 }
-              `}>
-                {algorithmIcons[algorithm]}
+              `}
+              whileHover={unavailable ? undefined : { scale: 1.02 }}
+              whileTap={unavailable ? undefined : { scale: 0.98 }}
+            >
+              <div className="flex items-center space-x-3 mb-2">
+                <div className={`
+                  p-2 rounded-lg
+                  ${selectedAlgorithm === algorithm
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400'
+                  }
+                `}>
+                  <Icon className="h-5 w-5" />
+                </div>
+                <h4 className="font-medium text-gray-900 dark:text-white">
+                  {info.name}
+                </h4>
+                {info.baseline && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+                    Baseline
+                  </span>
+                )}
+                {!capabilities.binary && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+                    Text only
+                  </span>
+                )}
               </div>
-              <h4 className="font-medium text-gray-900 dark:text-white">
-                {algorithmInfo[algorithm].name}
-              </h4>
-            </div>
-            
-            <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-              {algorithmInfo[algorithm].description}
-            </p>
-            
-            <div className="text-xs text-gray-500 dark:text-gray-500">
-              Complexity: {algorithmInfo[algorithm].complexity}
-            </div>
-            
-            {selectedAlgorithm === algorithm && (
-              <motion.div
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                className="absolute top-2 right-2"
-              >
-                <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-              </motion.div>
-            )}
-          </motion.button>
-        ))}
+              
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+                {info.description}
+              </p>
+              
+              <div className="text-xs text-gray-500 dark:text-gray-500">
+                {unavailable
+                  ? 'Not supported by this browser'
+                  : `Complexity: ${info.complexity}`}
+              </div>
+              
+              {selectedAlgorithm === algorithm && (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="absolute top-2 right-2"
+                >
+                  <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                </motion.div>
+              )}
+            </motion.button>
+          );
+        })}
       </div>
       
       {/* Algorithm Details */}
@@ -106,7 +174,7 @@ export function AlgorithmSelector({ selectedAlgorithm, onAlgorithmChange }: Algo
         <div className="flex items-center space-x-2 mb-4">
           <Info className="h-5 w-5 text-blue-500" />
           <h4 className="font-semibold text-gray-900 dark:text-white">
-            {algorithmInfo[selectedAlgorithm].name} Details
+            {selectedInfo.name} Details
           </h4>
         </div>
         
@@ -114,7 +182,7 @@ export function AlgorithmSelector({ selectedAlgorithm, onAlgorithmChange }: Algo
           <div>
             <h5 className="font-medium text-green-700 dark:text-green-400 mb-2">Best For:</h5>
             <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
-              {algorithmInfo[selectedAlgorithm].bestFor.map((item, index) => (
+              {selectedInfo.bestFor.map((item, index) => (
                 <li key={index} className="flex items-center space-x-2">
                   <div className="w-1.5 h-1.5 bg-green-500 rounded-full"></div>
                   <span>{item}</span>
@@ -126,7 +194,7 @@ export function AlgorithmSelector({ selectedAlgorithm, onAlgorithmChange }: Algo
           <div>
             <h5 className="font-medium text-red-700 dark:text-red-400 mb-2">Not Ideal For:</h5>
             <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
-              {algorithmInfo[selectedAlgorithm].worstFor.map((item, index) => (
+              {selectedInfo.worstFor.map((item, index) => (
                 <li key={index} className="flex items-center space-x-2">
                   <div className="w-1.5 h-1.5 bg-red-500 rounded-full"></div>
                   <span>{item}</span>
@@ -135,6 +203,43 @@ export function AlgorithmSelector({ selectedAlgorithm, onAlgorithmChange }: Algo
             </ul>
           </div>
         </div>
+
+        {selectedCodec.options.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-2">
+                <SlidersHorizontal className="h-5 w-5 text-blue-500" />
+                <h4 className="font-semibold text-gray-900 dark:text-white">Settings</h4>
+              </div>
+              <button
+                onClick={() => onOptionsChange(defaults)}
+                disabled={isDefault}
+                className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>Defaults</span>
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              {selectedCodec.options.map(option => (
+                <div key={option.key}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <label className="font-medium text-gray-700 dark:text-gray-300">{option.label}</label>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {option.type === 'number' ? `${option.min}–${option.max}, default ${option.default}` : `default ${option.default}`}
+                    </span>
+                  </div>
+                  <OptionControl
+                    option={option}
+                    value={options[option.key] ?? option.default}
+                    onChange={(value) => handleOptionChange(option.key, value)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </motion.div>
     </div>
   );
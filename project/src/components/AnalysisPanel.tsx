@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Activity } from 'lucide-react';
+import { DataAnalysis } from '../types';
+import { formatFileSize } from '../utils/format';
+
+interface AnalysisPanelProps {
+  analysis: DataAnalysis;
+  /** Output sizes to plot against the entropy bounds, one bar each */
+  achieved: { name: string; size: number }[];
+}
+
+const HISTOGRAM_TICKS = [0x00, 0x40, 0x80, 0xc0, 0xff];
+
+function byteLabel(byte: number): string {
+  const hex = `0x${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+  return byte >= 0x20 && byte < 0x7f ? `${hex} '${String.fromCharCode(byte)}'` : hex;
+}
+
+export function AnalysisPanel({ analysis, achieved }: AnalysisPanelProps) {
+  const [logScale, setLogScale] = useState(false);
+
+  const formatPercent = (fraction: number): string => `${(fraction * 100).toFixed(1)}%`;
+
+  const { size, histogram, runs, repeats } = analysis;
+  const minimumSize = Math.min(analysis.order0Bound, analysis.order1Bound);
+  const scaleMax = Math.max(size, ...achieved.map(entry => entry.size), 1);
+  const peak = Math.max(...histogram);
+  const barHeight = (count: number): number => {
+    if (count === 0 || peak === 0) return 0;
+    return logScale ? (Math.log1p(count) / Math.log1p(peak)) * 100 : (count / peak) * 100;
+  };
+  const repeatTotal = repeats.buckets.reduce((total, bucket) => total + bucket.count, 0);
+  const bounds = [
+    { label: 'order-0', size: analysis.order0Bound, className: 'bg-orange-500' },
+    { label: 'order-1', size: analysis.order1Bound, className: 'bg-purple-500' }
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+    >
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-purple-100 dark:bg-purple-900/30 rounded-lg">
+            <Activity className="h-6 w-6 text-purple-600 dark:text-purple-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Data Analysis</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              What the input allows, independent of the algorithm
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-8">
+        {/* Entropy */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Order-0 entropy</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">{analysis.entropy0.toFixed(3)} bits/byte</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(analysis.order0Bound)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Order-1 entropy</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">{analysis.entropy1.toFixed(3)} bits/byte</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(analysis.order1Bound)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Distinct bytes</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">{analysis.distinctBytes} / 256</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Theoretical minimum</p>
+            <p className="text-lg font-semibold text-green-600 dark:text-green-400">{formatFileSize(minimumSize)}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {size > 0 ? `${formatPercent(1 - minimumSize / size)} smaller` : 'empty input'}
+            </p>
+          </div>
+        </div>
+
+        {/* Achieved size against the bounds */}
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h4 className="font-medium text-gray-900 dark:text-white">Achieved size vs entropy bounds</h4>
+            <div className="flex items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+              {bounds.map(bound => (
+                <span key={bound.label} className="inline-flex items-center space-x-1">
+                  <span className={`inline-block w-0.5 h-3 ${bound.className}`} />
+                  <span>{bound.label} bound</span>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {[{ name: 'Original', size }, ...achieved].map((entry, index) => (
+              <div key={`${entry.name}-${index}`} className="flex items-center space-x-3 text-sm">
+                <span className="w-44 shrink-0 truncate text-gray-600 dark:text-gray-400">{entry.name}</span>
+                <div className="relative flex-1 h-4 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <motion.div
+                    className={`h-full rounded-full ${index === 0 ? 'bg-gray-400 dark:bg-gray-500' : 'bg-blue-500'}`}
+                    initial={{ width: 0 }}
+                    animate={{ width: `${(entry.size / scaleMax) * 100}%` }}
+                    transition={{ duration: 0.4 }}
+                  />
+                  {bounds.map(bound => (
+                    <div
+                      key={bound.label}
+                      className={`absolute top-0 h-full w-0.5 ${bound.className}`}
+                      style={{ left: `${(bound.size / scaleMax) * 100}%` }}
+                    />
+                  ))}
+                </div>
+                <span className="w-36 shrink-0 text-right text-gray-900 dark:text-white">
+                  {formatFileSize(entry.size)}
+                  {index > 0 && minimumSize > 0 && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400"> ({(entry.size / minimumSize).toFixed(2)}×)</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+            The bounds assume a coder that knows the byte statistics for free. Codecs that match repeated strings
+            can beat them; the order-1 bound is optimistic for small files, whose 65,536 contexts are mostly empty.
+          </p>
+        </div>
+
+        {/* Byte histogram */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-medium text-gray-900 dark:text-white">Byte distribution</h4>
+            <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+              <input type="checkbox" checked={logScale} onChange={(e) => setLogScale(e.target.checked)} />
+              <span>Log scale</span>
+            </label>
+          </div>
+          <svg viewBox="0 0 256 100" preserveAspectRatio="none" className="w-full h-32 bg-gray-50 dark:bg-gray-900/50 rounded-lg">
+            {histogram.map((count, byte) => (
+              <rect
+                key={byte}
+                x={byte}
+                y={100 - barHeight(count)}
+                width={1}
+                height={barHeight(count)}
+                className="fill-blue-500 hover:fill-purple-500"
+              >
+                <title>{`${byteLabel(byte)}: ${count.toLocaleString()} (${formatPercent(size > 0 ? count / size : 0)})`}</title>
+              </rect>
+            ))}
+          </svg>
+          <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {HISTOGRAM_TICKS.map(tick => <span key={tick}>{byteLabel(tick).slice(0, 4)}</span>)}
+          </div>
+        </div>
+
+        {/* Runs and repeats */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white mb-3">Runs of one byte</h4>
+            <dl className="grid grid-cols-2 gap-2 text-sm">
+              <dt className="text-gray-600 dark:text-gray-400">Runs</dt>
+              <dd className="text-right text-gray-900 dark:text-white">{runs.count.toLocaleString()}</dd>
+              <dt className="text-gray-600 dark:text-gray-400">Mean length</dt>
+              <dd className="text-right text-gray-900 dark:text-white">{runs.meanLength.toFixed(2)}</dd>
+              <dt className="text-gray-600 dark:text-gray-400">Longest</dt>
+              <dd className="text-right text-gray-900 dark:text-white">
+                {runs.longest > 0 ? `${runs.longest.toLocaleString()} × ${byteLabel(runs.longestByte)}` : '—'}
+              </dd>
+              <dt className="text-gray-600 dark:text-gray-400">In runs of 4+</dt>
+              <dd className="text-right text-gray-900 dark:text-white">{formatPercent(size > 0 ? runs.bytesInLongRuns / size : 0)}</dd>
+            </dl>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white mb-3">
+              Repeated 4-byte strings
+              <span className="ml-2 text-sm font-normal text-gray-600 dark:text-gray-400">{formatPercent(repeats.coverage)} of positions</span>
+            </h4>
+            <div className="space-y-1.5">
+              {repeats.buckets.map(bucket => (
+                <div key={bucket.label} className="flex items-center space-x-2 text-xs">
+                  <span className="w-14 shrink-0 text-gray-600 dark:text-gray-400">{bucket.label}</span>
+                  <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-green-500 rounded-full"
+                      style={{ width: `${repeatTotal > 0 ? (bucket.count / repeatTotal) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <span className="w-12 shrink-0 text-right text-gray-900 dark:text-white">
+                    {formatPercent(repeatTotal > 0 ? bucket.count / repeatTotal : 0)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+              Distance back to the last copy. LZ77 looks 4 KB back, DEFLATE 32 KB and LZ4 64 KB.
+            </p>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,245 @@
+import { motion } from 'framer-motion';
+import { Ban, CheckCircle, Clock, Download, Loader2, RotateCcw, X, XCircle } from 'lucide-react';
+import { BatchJob, BatchJobStatus, BatchQueueOptions } from '../types';
+import { formatFileSize } from '../utils/format';
+
+interface BatchQueueProps {
+  jobs: BatchJob[];
+  options: BatchQueueOptions;
+  onOptionsChange: (options: BatchQueueOptions) => void;
+  onCancel: (id: number) => void;
+  onRetry: (id: number) => void;
+  onRetryFailed: () => void;
+  onDownload: (job: BatchJob) => void;
+  /** Bundles every finished archive into one ZIP */
+  onDownloadAll: () => void;
+  downloadingAll: boolean;
+}
+
+const CONCURRENCY_CHOICES = [1, 2, 3, 4, 6, 8];
+const RETRY_CHOICES = [0, 1, 2, 3];
+
+const statusLabels: Record<BatchJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Compressing',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+function StatusIcon({ status }: { status: BatchJobStatus }) {
+  switch (status) {
+    case 'queued':
+      return <Clock className="h-5 w-5 text-gray-400" />;
+    case 'running':
+      return <Loader2 className="h-5 w-5 text-blue-500 animate-spin" />;
+    case 'done':
+      return <CheckCircle className="h-5 w-5 text-green-500" />;
+    case 'failed':
+      return <XCircle className="h-5 w-5 text-red-500" />;
+    case 'cancelled':
+      return <Ban className="h-5 w-5 text-gray-400" />;
+  }
+}
+
+function describeJob(job: BatchJob): string {
+  switch (job.status) {
+    case 'failed':
+      return `${job.error}${job.attempts > 1 ? ` (after ${job.attempts} attempts)` : ''}`;
+    case 'queued':
+    case 'running':
+      return job.progress.message;
+    case 'done':
+      if (job.result?.verified === false) return `Round-trip FAILED${job.result.verificationError ? `: ${job.result.verificationError}` : ''}`;
+      return job.result?.verified ? 'Done, verified lossless' : statusLabels.done;
+    default:
+      return statusLabels[job.status];
+  }
+}
+
+export function BatchQueue({
+  jobs,
+  options,
+  onOptionsChange,
+  onCancel,
+  onRetry,
+  onRetryFailed,
+  onDownload,
+  onDownloadAll,
+  downloadingAll
+}: BatchQueueProps) {
+  const done = jobs.filter(job => job.status === 'done');
+  const failedCount = jobs.filter(job => job.status === 'failed').length;
+  const finishedCount = jobs.filter(job => job.status !== 'queued' && job.status !== 'running').length;
+  // Totals count finished jobs only, and compare against the archives actually downloaded
+  const originalTotal = done.reduce((total, job) => total + job.result!.originalSize, 0);
+  const compressedTotal = done.reduce((total, job) => total + job.archive!.size, 0);
+  const savedTotal = originalTotal - compressedTotal;
+  const overallProgress = jobs.length > 0
+    ? jobs.reduce((total, job) => total + (job.status === 'queued' ? 0 : job.status === 'running' ? job.progress.progress : 100), 0) / jobs.length
+    : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+    >
+      {/* Totals */}
+      <div className="bg-gradient-to-r from-green-50 to-blue-50 dark:from-green-900/20 dark:to-blue-900/20 p-6 border-b border-gray-200 dark:border-gray-700 space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Files</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">{done.length} / {jobs.length}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Original</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">{formatFileSize(originalTotal)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Compressed</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">{formatFileSize(compressedTotal)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Saved</p>
+            <p className={`text-lg font-semibold ${savedTotal >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {formatFileSize(savedTotal)}
+              {originalTotal > 0 && <span className="text-sm font-normal"> ({((savedTotal / originalTotal) * 100).toFixed(1)}%)</span>}
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-1">
+            <span>{finishedCount === jobs.length ? 'Batch finished' : `${finishedCount} of ${jobs.length} finished`}</span>
+            <span>{Math.round(overallProgress)}%</span>
+          </div>
+          <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <motion.div
+              className="h-full bg-blue-500 rounded-full"
+              animate={{ width: `${overallProgress}%` }}
+              transition={{ duration: 0.3 }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Settings */}
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+          <span>Parallel jobs</span>
+          <select
+            value={options.concurrency}
+            onChange={(e) => onOptionsChange({ ...options, concurrency: Number(e.target.value) })}
+            className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-2 py-1"
+          >
+            {CONCURRENCY_CHOICES.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+          <span>Automatic retries</span>
+          <select
+            value={options.maxRetries}
+            onChange={(e) => onOptionsChange({ ...options, maxRetries: Number(e.target.value) })}
+            className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-2 py-1"
+          >
+            {RETRY_CHOICES.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+          </select>
+        </label>
+        <div className="ml-auto flex items-center gap-2">
+          {failedCount > 0 && (
+            <button
+              onClick={onRetryFailed}
+              className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 font-medium"
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span>Retry {failedCount} failed</span>
+            </button>
+          )}
+          {done.length > 0 && (
+            <button
+              onClick={onDownloadAll}
+              disabled={downloadingAll}
+              className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium"
+            >
+              {downloadingAll ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              <span>Download {done.length} as .zip</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Jobs */}
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700/50">
+        {jobs.map((job) => (
+          <li key={job.id} className="px-6 py-3 flex items-center space-x-3">
+            <StatusIcon status={job.status} />
+
+            <div className="flex-1 min-w-0">
+              <div className="flex items-baseline justify-between gap-2">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{job.file.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                  {formatFileSize(job.file.size)}
+                  {job.status === 'done' && (
+                    <>
+                      {' → '}{formatFileSize(job.archive!.size)}{' '}
+                      <span className={job.result!.compressionRatio > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                        ({job.result!.compressionRatio.toFixed(1)}%)
+                      </span>
+                    </>
+                  )}
+                </p>
+              </div>
+
+              {job.status === 'running' && (
+                <div className="mt-1 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <motion.div
+                    className="h-full bg-blue-500 rounded-full"
+                    animate={{ width: `${job.progress.progress}%` }}
+                    transition={{ duration: 0.2 }}
+                  />
+                </div>
+              )}
+
+              <p className={`mt-0.5 text-xs truncate ${
+                job.status === 'failed' || job.result?.verified === false ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+              }`}>
+                {describeJob(job)}
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-1">
+              {job.status === 'done' && (
+                <button
+                  onClick={() => onDownload(job)}
+                  className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400"
+                  title={`Download ${job.archiveName}`}
+                >
+                  <Download className="h-4 w-4" />
+                </button>
+              )}
+              {(job.status === 'failed' || job.status === 'cancelled') && (
+                <button
+                  onClick={() => onRetry(job.id)}
+                  className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400"
+                  title="Retry"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </button>
+              )}
+              {(job.status === 'queued' || job.status === 'running') && (
+                <button
+                  onClick={() => onCancel(job.id)}
+                  className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400"
+                  title="Cancel"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </motion.div>
+  );
+}
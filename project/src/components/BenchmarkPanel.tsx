@@ -0,0 +1,234 @@
+import { motion } from 'framer-motion';
+import { CheckCircle, FileSpreadsheet, Gauge, Play, Square, Trophy, XCircle, Zap } from 'lucide-react';
+import { BENCHMARK_CORPORA } from '../utils/benchmarkCorpora';
+import { BenchmarkConfig, BenchmarkCorpusId, BenchmarkRow } from '../types';
+import { formatFileSize, formatTime } from '../utils/format';
+
+interface BenchmarkPanelProps {
+  config: BenchmarkConfig;
+  onConfigChange: (config: BenchmarkConfig) => void;
+  /** Rows of the last finished run, empty before the first */
+  rows: BenchmarkRow[];
+  running: boolean;
+  onRun: () => void;
+  onCancel: () => void;
+  onExport: () => void;
+}
+
+const SIZE_CHOICES = [64 * 1024, 256 * 1024, 1024 * 1024, 4 * 1024 * 1024];
+const ITERATION_CHOICES = [1, 3, 5, 7, 9];
+
+export function BenchmarkPanel({ config, onConfigChange, rows, running, onRun, onCancel, onExport }: BenchmarkPanelProps) {
+  const formatThroughput = (bytes: number, ms: number): string =>
+    ms > 0 ? `${(bytes / (1024 * 1024) / (ms / 1000)).toFixed(1)} MB/s` : '—';
+
+  const toggleCorpus = (id: BenchmarkCorpusId) => {
+    const corpora = config.corpora.includes(id)
+      ? config.corpora.filter(corpus => corpus !== id)
+      : [...config.corpora, id];
+    onConfigChange({ ...config, corpora });
+  };
+
+  const selectClassName = 'rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-2 py-1 disabled:opacity-50';
+  const resultCorpora = BENCHMARK_CORPORA.filter(corpus => rows.some(row => row.corpus === corpus.id));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-4xl mx-auto space-y-6"
+    >
+      {/* Settings */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+              <Gauge className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Benchmark</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Every algorithm, with its default settings, on generated data. The same seed always generates the same corpora.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {BENCHMARK_CORPORA.map(corpus => (
+              <label
+                key={corpus.id}
+                className="flex items-start space-x-2 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={config.corpora.includes(corpus.id)}
+                  disabled={running}
+                  onChange={() => toggleCorpus(corpus.id)}
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">{corpus.name}</span>
+                  <span className="block text-xs text-gray-600 dark:text-gray-400">{corpus.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+              <span>Corpus size</span>
+              <select
+                value={config.corpusSize}
+                disabled={running}
+                onChange={(e) => onConfigChange({ ...config, corpusSize: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                {SIZE_CHOICES.map(size => <option key={size} value={size}>{formatFileSize(size)}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+              <span>Runs each</span>
+              <select
+                value={config.iterations}
+                disabled={running}
+                onChange={(e) => onConfigChange({ ...config, iterations: Number(e.target.value) })}
+                className={selectClassName}
+              >
+                {ITERATION_CHOICES.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+              <span>Seed</span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={config.seed}
+                disabled={running}
+                onChange={(e) => onConfigChange({ ...config, seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                className={`${selectClassName} w-28`}
+              />
+            </label>
+
+            <div className="ml-auto flex items-center gap-2">
+              {rows.length > 0 && !running && (
+                <button
+                  onClick={onExport}
+                  className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 font-medium"
+                >
+                  <FileSpreadsheet className="h-4 w-4" />
+                  <span>Export CSV</span>
+                </button>
+              )}
+              {running ? (
+                <button
+                  onClick={onCancel}
+                  className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/40 font-medium"
+                >
+                  <Square className="h-4 w-4" />
+                  <span>Stop</span>
+                </button>
+              ) : (
+                <button
+                  onClick={onRun}
+                  disabled={config.corpora.length === 0}
+                  className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium"
+                >
+                  <Play className="h-4 w-4" />
+                  <span>Run benchmark</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* One table per corpus */}
+      {!running && resultCorpora.map(corpus => {
+        const corpusRows = rows.filter(row => row.corpus === corpus.id);
+        const verified = corpusRows.filter(row => row.roundTrip);
+        const smallest = verified.reduce<BenchmarkRow | null>((best, row) => !best || row.compressedSize < best.compressedSize ? row : best, null);
+        const fastest = verified.reduce<BenchmarkRow | null>((best, row) => !best || row.compressMs < best.compressMs ? row : best, null);
+
+        return (
+          <div key={corpus.id} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-baseline justify-between gap-2">
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                {corpus.name}
+                <span className="ml-2 text-sm font-normal text-gray-600 dark:text-gray-400">{formatFileSize(corpusRows[0].originalSize)}</span>
+              </h4>
+              <div className="flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+                {smallest && (
+                  <span className="inline-flex items-center space-x-1">
+                    <Trophy className="h-3.5 w-3.5 text-green-600 dark:text-green-400" />
+                    <span>Smallest: {smallest.name}</span>
+                  </span>
+                )}
+                {fastest && (
+                  <span className="inline-flex items-center space-x-1">
+                    <Zap className="h-3.5 w-3.5 text-yellow-500" />
+                    <span>Fastest: {fastest.name}</span>
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto px-6 py-2">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                    <th className="py-2 px-2 font-medium text-left">Algorithm</th>
+                    <th className="py-2 px-2 font-medium text-right">Compressed</th>
+                    <th className="py-2 px-2 font-medium text-right">Ratio</th>
+                    <th className="py-2 px-2 font-medium text-right">Compress (median)</th>
+                    <th className="py-2 px-2 font-medium text-right">Decompress (median)</th>
+                    <th className="py-2 px-2 font-medium text-right">Round trip</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {corpusRows.map(row => (
+                    <tr
+                      key={row.algorithm}
+                      className={`border-b border-gray-100 dark:border-gray-700/50 ${row === smallest ? 'bg-green-50 dark:bg-green-900/20' : ''}`}
+                    >
+                      <td className="py-2 px-2 text-gray-900 dark:text-white">{row.name}</td>
+                      {row.error ? (
+                        <td colSpan={5} className="py-2 px-2 text-right text-red-600 dark:text-red-400">Failed: {row.error}</td>
+                      ) : (
+                        <>
+                          <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{formatFileSize(row.compressedSize)}</td>
+                          <td className={`py-2 px-2 text-right ${
+                            row.compressionRatio > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                          }`}>
+                            {row.compressionRatio.toFixed(1)}%
+                          </td>
+                          <td className={`py-2 px-2 text-right ${row === fastest ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-400'}`}>
+                            {formatTime(row.compressMs)}
+                            <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{formatThroughput(row.originalSize, row.compressMs)}</span>
+                          </td>
+                          <td className="py-2 px-2 text-right text-gray-600 dark:text-gray-400">
+                            {formatTime(row.decompressMs)}
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">{formatThroughput(row.originalSize, row.decompressMs)}</span>
+                          </td>
+                          <td className="py-2 px-2 text-right">
+                            {row.roundTrip ? (
+                              <CheckCircle className="inline h-4 w-4 text-green-600 dark:text-green-400" />
+                            ) : (
+                              <XCircle className="inline h-4 w-4 text-red-600 dark:text-red-400" />
+                            )}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </motion.div>
+  );
+}
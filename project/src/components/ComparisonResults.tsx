@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowDown, ArrowUp, CheckCircle, Download, Trophy, XCircle } from 'lucide-react';
+import { ComparisonEntry } from '../types';
+import { formatFileSize, formatTime } from '../utils/format';
+
+interface ComparisonResultsProps {
+  entries: ComparisonEntry[];
+  onDownload: (entry: ComparisonEntry) => void;
+}
+
+type SortKey = 'name' | 'compressedSize' | 'compressionRatio' | 'compressionTime' | 'decompressionTime' | 'roundTrip';
+type Metric = Exclude<SortKey, 'name' | 'roundTrip'>;
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Algorithm' },
+  { key: 'compressedSize', label: 'Compressed' },
+  { key: 'compressionRatio', label: 'Ratio' },
+  { key: 'compressionTime', label: 'Compress' },
+  { key: 'decompressionTime', label: 'Decompress' },
+  { key: 'roundTrip', label: 'Round trip' }
+];
+
+const metricLabels: Record<Metric, string> = {
+  compressedSize: 'Compressed size',
+  compressionRatio: 'Space saved',
+  compressionTime: 'Compression time',
+  decompressionTime: 'Decompression time'
+};
+
+function metricValue(entry: ComparisonEntry, metric: Metric): number {
+  switch (metric) {
+    case 'compressedSize':
+      return entry.result!.compressedSize;
+    case 'compressionRatio':
+      return entry.result!.compressionRatio;
+    case 'compressionTime':
+      return entry.result!.processingTime;
+    case 'decompressionTime':
+      return entry.decompressionTime ?? 0;
+  }
+}
+
+function isMetric(key: SortKey): key is Metric {
+  return key !== 'name' && key !== 'roundTrip';
+}
+
+export function ComparisonResults({ entries, onDownload }: ComparisonResultsProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('compressedSize');
+  const [ascending, setAscending] = useState(true);
+  const [chartMetric, setChartMetric] = useState<Metric>('compressedSize');
+
+  const formatMetric = (value: number, metric: Metric): string => {
+    if (metric === 'compressedSize') return formatFileSize(value);
+    if (metric === 'compressionRatio') return `${value.toFixed(1)}%`;
+    return formatTime(value);
+  };
+
+  const completed = entries.filter(entry => entry.result);
+  const failed = entries.filter(entry => !entry.result);
+  // The smallest output that actually decompresses back to the input
+  const winner = completed
+    .filter(entry => entry.roundTrip)
+    .reduce<ComparisonEntry | null>((best, entry) => !best || entry.result!.compressedSize < best.result!.compressedSize ? entry : best, null);
+  const originalSize = completed[0]?.result?.originalSize ?? 0;
+
+  const sorted = [...completed].sort((a, b) => {
+    let order: number;
+    if (sortKey === 'name') order = a.name.localeCompare(b.name);
+    else if (sortKey === 'roundTrip') order = Number(b.roundTrip) - Number(a.roundTrip);
+    else order = metricValue(a, sortKey) - metricValue(b, sortKey);
+    return ascending ? order : -order;
+  });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      // Sizes and times read best smallest-first, space saved largest-first
+      setAscending(key !== 'compressionRatio');
+    }
+    if (isMetric(key)) setChartMetric(key);
+  };
+
+  const chartMax = Math.max(...completed.map(entry => Math.abs(metricValue(entry, chartMetric))), 1e-9);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+    >
+      {/* Winner */}
+      <div className="bg-gradient-to-r from-green-50 to-blue-50 dark:from-green-900/20 dark:to-blue-900/20 p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-lg">
+              <Trophy className="h-6 w-6 text-green-600 dark:text-green-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {winner ? `Best: ${winner.name}` : 'No algorithm round-tripped this file'}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {winner
+                  ? `${formatFileSize(winner.result!.compressedSize)} from ${formatFileSize(originalSize)}, the smallest verified output of ${entries.length} algorithms`
+                  : `All ${entries.length} algorithms failed to restore the original bytes`}
+              </p>
+            </div>
+          </div>
+
+          {winner && (
+            <motion.button
+              onClick={() => onDownload(winner)}
+              className="flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg font-medium transition-colors"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <Download className="h-4 w-4" />
+              <span>Download {winner.archiveName}</span>
+            </motion.button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Table */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                {columns.map(({ key, label }) => (
+                  <th key={key} className={`py-2 px-2 font-medium ${key === 'name' ? 'text-left' : 'text-right'}`}>
+                    <button
+                      onClick={() => handleSort(key)}
+                      className={`inline-flex items-center space-x-1 ${
+                        sortKey === key ? 'text-blue-600 dark:text-blue-400' : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                      }`}
+                    >
+                      <span>{label}</span>
+                      {sortKey === key && (ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                    </button>
+                  </th>
+                ))}
+                <th className="py-2 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((entry) => {
+                const result = entry.result!;
+                const isWinner = entry === winner;
+
+                return (
+                  <tr
+                    key={entry.algorithm}
+                    className={`border-b border-gray-100 dark:border-gray-700/50 ${isWinner ? 'bg-green-50 dark:bg-green-900/20' : ''}`}
+                  >
+                    <td className="py-2 px-2 text-gray-900 dark:text-white">
+                      <span className="inline-flex items-center space-x-1">
+                        {isWinner && <Trophy className="h-3.5 w-3.5 text-green-600 dark:text-green-400" />}
+                        <span className={isWinner ? 'font-semibold' : ''}>{entry.name}</span>
+                      </span>
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{formatFileSize(result.compressedSize)}</td>
+                    <td className={`py-2 px-2 text-right ${
+                      result.compressionRatio > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                    }`}>
+                      {result.compressionRatio.toFixed(1)}%
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-600 dark:text-gray-400">{formatTime(result.processingTime)}</td>
+                    <td className="py-2 px-2 text-right text-gray-600 dark:text-gray-400">{formatTime(entry.decompressionTime ?? 0)}</td>
+                    <td className="py-2 px-2 text-right">
+                      {entry.roundTrip ? (
+                        <span className="inline-flex items-center space-x-1 text-green-600 dark:text-green-400">
+                          <CheckCircle className="h-4 w-4" />
+                          <span>OK</span>
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center space-x-1 text-red-600 dark:text-red-400" title={entry.error}>
+                          <XCircle className="h-4 w-4" />
+                          <span>FAILED</span>
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 px-2 text-right">
+                      <button
+                        onClick={() => onDownload(entry)}
+                        className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400"
+                        title={`Download ${entry.archiveName}`}
+                      >
+                        <Download className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {failed.map((entry) => (
+                <tr key={entry.algorithm} className="border-b border-gray-100 dark:border-gray-700/50">
+                  <td className="py-2 px-2 text-gray-900 dark:text-white">{entry.name}</td>
+                  <td colSpan={6} className="py-2 px-2 text-right text-red-600 dark:text-red-400">
+                    Compression failed: {entry.error}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Bar chart; sorting by a metric also charts it */}
+        <div>
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <h4 className="font-medium text-gray-900 dark:text-white">{metricLabels[chartMetric]}</h4>
+            <div className="inline-flex p-1 bg-gray-100 dark:bg-gray-900/50 rounded-lg">
+              {(Object.keys(metricLabels) as Metric[]).map((metric) => (
+                <button
+                  key={metric}
+                  onClick={() => setChartMetric(metric)}
+                  className={`px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+                    chartMetric === metric
+                      ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  {metricLabels[metric]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {sorted.map((entry) => {
+              const value = metricValue(entry, chartMetric);
+              return (
+                <div key={entry.algorithm} className="flex items-center space-x-3 text-sm">
+                  <span className="w-44 shrink-0 truncate text-gray-600 dark:text-gray-400">{entry.name}</span>
+                  <div className="flex-1 h-4 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <motion.div
+                      className={`h-full rounded-full ${
+                        !entry.roundTrip ? 'bg-red-500' : entry === winner ? 'bg-green-500' : 'bg-blue-500'
+                      }`}
+                      initial={{ width: 0 }}
+                      animate={{ width: `${(Math.max(0, value) / chartMax) * 100}%` }}
+                      transition={{ duration: 0.5 }}
+                    />
+                  </div>
+                  <span className="w-20 shrink-0 text-right text-gray-900 dark:text-white">{formatMetric(value, chartMetric)}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
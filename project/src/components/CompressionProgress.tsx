@@ -2,6 +2,7 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
 import { ProcessingProgress } from '../types';
+import { formatFileSize, formatTime } from '../utils/format';
 
 interface CompressionProgressProps {
   progress: ProcessingProgress;
@@ -9,7 +10,12 @@ interface CompressionProgressProps {
   hasError: boolean;
 }
 
+const STAGE_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-orange-500', 'bg-pink-500', 'bg-teal-500'];
+
 export function CompressionProgress({ progress, isComplete, hasError }: CompressionProgressProps) {
+  const telemetry = progress.telemetry;
+  const stageTotal = telemetry?.stages.reduce((total, timing) => total + timing.elapsedMs, 0) ?? 0;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -52,6 +58,56 @@ export function CompressionProgress({ progress, isComplete, hasError }: Compress
               transition={{ duration: 0.3, ease: "easeOut" }}
             />
           </div>
+
+          {telemetry && (
+            <>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 pt-2 text-sm">
+                <span className="text-gray-600 dark:text-gray-400">Processed</span>
+                <span className="text-right text-gray-900 dark:text-white">
+                  {formatFileSize(telemetry.bytesProcessed)} / {formatFileSize(telemetry.totalBytes)}
+                </span>
+                <span className="text-gray-600 dark:text-gray-400">Throughput</span>
+                <span className="text-right text-gray-900 dark:text-white">
+                  {(telemetry.bytesPerSecond / (1024 * 1024)).toFixed(1)} MB/s
+                </span>
+                <span className="text-gray-600 dark:text-gray-400">Elapsed</span>
+                <span className="text-right text-gray-900 dark:text-white">{formatTime(telemetry.elapsedMs)}</span>
+                <span className="text-gray-600 dark:text-gray-400">Remaining</span>
+                <span className="text-right text-gray-900 dark:text-white">
+                  {telemetry.etaMs === null ? 'estimating...' : isComplete ? '—' : `~${formatTime(telemetry.etaMs)}`}
+                </span>
+              </div>
+
+              {/* Where the time went, stage by stage */}
+              {stageTotal > 0 && (
+                <div className="pt-2">
+                  <div className="flex h-2 rounded-full overflow-hidden bg-gray-200 dark:bg-gray-700">
+                    {telemetry.stages.map((timing, index) => (
+                      <div
+                        key={timing.stage}
+                        className={STAGE_COLORS[index % STAGE_COLORS.length]}
+                        style={{ width: `${(timing.elapsedMs / stageTotal) * 100}%` }}
+                        title={`${timing.stage}: ${formatTime(timing.elapsedMs)}`}
+                      />
+                    ))}
+                  </div>
+                  <ul className="mt-2 space-y-0.5 text-xs">
+                    {telemetry.stages.map((timing, index) => (
+                      <li key={timing.stage} className="flex items-center justify-between text-gray-600 dark:text-gray-400">
+                        <span className="flex items-center space-x-2">
+                          <span className={`inline-block w-2 h-2 rounded-full ${STAGE_COLORS[index % STAGE_COLORS.length]}`} />
+                          <span>{timing.stage}</span>
+                        </span>
+                        <span>
+                          {formatTime(timing.elapsedMs)} ({((timing.elapsedMs / stageTotal) * 100).toFixed(0)}%)
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
         </div>
       )}
     </motion.div>
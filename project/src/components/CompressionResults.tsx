@@ -1,7 +1,8 @@
-import React from 'react';
 import { motion } from 'framer-motion';
-import { Download, BarChart3, Clock, FileText, TrendingDown, TrendingUp } from 'lucide-react';
+import { Download, BarChart3, Clock, FileText, ShieldCheck, ShieldX, TrendingDown, TrendingUp } from 'lucide-react';
 import { CompressionResult } from '../types';
+import { listCodecs } from '../utils/codecRegistry';
+import { formatFileSize, formatTime } from '../utils/format';
 
 interface CompressionResultsProps {
   result: CompressionResult;
@@ -10,21 +11,19 @@ interface CompressionResultsProps {
 }
 
 export function CompressionResults({ result, onDownload, onDecompress }: CompressionResultsProps) {
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
-  const formatTime = (ms: number): string => {
-    if (ms < 1000) return `${ms.toFixed(1)}ms`;
-    return `${(ms / 1000).toFixed(2)}s`;
+  // Input bytes per second, the usual way codec speeds are quoted
+  const formatThroughput = (bytes: number, ms: number): string => {
+    const megabytesPerSecond = bytes / (1024 * 1024) / (ms / 1000);
+    return `${megabytesPerSecond >= 100 ? megabytesPerSecond.toFixed(0) : megabytesPerSecond.toFixed(1)} MB/s`;
   };
 
   const compressionRatio = result.compressionRatio;
   const isCompressed = compressionRatio > 0;
+  const achievedBitsPerByte = result.originalSize > 0 ? (result.compressedSize * 8) / result.originalSize : 0;
+  const shannonLimit = result.entropy !== undefined ? (result.entropy * result.originalSize) / 8 : 0;
+  // The codec's tunable options as recorded in the result; ZIP results record none of them, and stored ZIPs have no codec
+  const codec = listCodecs().find(candidate => candidate.id === result.algorithmId);
+  const settings = codec?.options.filter(option => option.key in result.parameters) ?? [];
 
   return (
     <motion.div
@@ -34,18 +33,38 @@ export function CompressionResults({ result, onDownload, onDecompress }: Compres
     >
       {/* Header */}
       <div className="bg-gradient-to-r from-green-50 to-blue-50 dark:from-green-900/20 dark:to-blue-900/20 p-6 border-b border-gray-200 dark:border-gray-700">
-        <div className="flex items-center space-x-3">
-          <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-lg">
-            <BarChart3 className="h-6 w-6 text-green-600 dark:text-green-400" />
-          </div>
-          <div>
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-              Compression Results
-            </h3>
-            <p className="text-sm text-gray-600 dark:text-gray-400">
-              {result.algorithm} algorithm
-            </p>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-lg">
+              <BarChart3 className="h-6 w-6 text-green-600 dark:text-green-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Compression Results
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {result.algorithm} algorithm
+              </p>
+            </div>
           </div>
+
+          {result.verified !== undefined && (result.verified ? (
+            <span
+              className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400"
+              title="The output was decoded again and matched the input's length and CRC-32"
+            >
+              <ShieldCheck className="h-4 w-4" />
+              <span>Verified lossless</span>
+            </span>
+          ) : (
+            <span
+              className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400"
+              title={result.verificationError ?? 'Decoding the output did not give back the input'}
+            >
+              <ShieldX className="h-4 w-4" />
+              <span>Round-trip FAILED</span>
+            </span>
+          ))}
         </div>
       </div>
 
@@ -123,6 +142,44 @@ export function CompressionResults({ result, onDownload, onDecompress }: Compres
           </div>
         </div>
 
+        {/* Shannon Limit */}
+        {result.entropy !== undefined && result.originalSize > 0 && (
+          <div className="mb-6 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <div className="flex justify-between text-sm mb-3">
+              <span className="font-medium text-gray-900 dark:text-white">Entropy</span>
+              <span className="text-gray-600 dark:text-gray-400">order-0 Shannon limit</span>
+            </div>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Limit</p>
+                <p className="font-semibold text-gray-900 dark:text-white">{result.entropy.toFixed(3)} bits/byte</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(Math.ceil(shannonLimit))}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Achieved</p>
+                <p className="font-semibold text-blue-600 dark:text-blue-400">{achievedBitsPerByte.toFixed(3)} bits/byte</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{formatFileSize(result.compressedSize)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Gap</p>
+                <p className={`font-semibold ${
+                  achievedBitsPerByte <= result.entropy ? 'text-green-600 dark:text-green-400' : 'text-orange-600 dark:text-orange-400'
+                }`}>
+                  {achievedBitsPerByte > result.entropy ? '+' : ''}{(achievedBitsPerByte - result.entropy).toFixed(3)} bits/byte
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {shannonLimit > 0 ? `${((result.compressedSize / shannonLimit - 1) * 100).toFixed(1)}% vs limit` : 'no limit'}
+                </p>
+              </div>
+            </div>
+            {achievedBitsPerByte < result.entropy && (
+              <p className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+                Below the order-0 limit: this codec exploits context or repeated strings that byte frequencies alone cannot capture.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-3">
           <motion.button
@@ -148,6 +205,26 @@ export function CompressionResults({ result, onDownload, onDecompress }: Compres
           )}
         </div>
 
+        {/* Settings */}
+        {settings.length > 0 && (
+          <div className="mt-6 p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <h4 className="font-medium text-gray-900 dark:text-white mb-2">Settings Used</h4>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+              {settings.map(option => (
+                <div key={option.key} className="flex justify-between gap-2">
+                  <dt className="text-gray-600 dark:text-gray-400">{option.label}</dt>
+                  <dd className="text-gray-900 dark:text-white">
+                    {result.parameters[option.key]}
+                    {result.parameters[option.key] === option.default && (
+                      <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(default)</span>
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
         {/* Performance Insights */}
         <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg">
           <h4 className="font-medium text-gray-900 dark:text-white mb-2">Performance Insights</h4>
@@ -155,8 +232,12 @@ export function CompressionResults({ result, onDownload, onDecompress }: Compres
             {isCompressed ? (
               <>
                 <p>✅ File size reduced by {compressionRatio.toFixed(1)}%</p>
-                <p>⚡ Processing completed in {formatTime(result.processingTime)}</p>
+                <p>⚡ Processing completed in {formatTime(result.processingTime)}
+                  {result.processingTime > 0 && ` (${formatThroughput(result.originalSize, result.processingTime)})`}</p>
                 <p>💾 Space saved: {formatFileSize(result.originalSize - result.compressedSize)}</p>
+                {result.blockCount !== undefined && (
+                  <p>🧱 Streamed in {result.blockCount} independent blocks of {formatFileSize(Number(result.parameters.streamBlockSize))}</p>
+                )}
               </>
             ) : (
               <>
@@ -0,0 +1,115 @@
+import { motion } from 'framer-motion';
+import { Download, FileCheck, FileWarning, FileText, Archive, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { RestoredFile } from '../types';
+import { getCodec } from '../utils/codecRegistry';
+import { formatFileSize } from '../utils/format';
+
+interface DecompressionResultsProps {
+  restored: RestoredFile;
+  archiveSize: number;
+  onDownload: () => void;
+}
+
+export function DecompressionResults({ restored, archiveSize, onDownload }: DecompressionResultsProps) {
+  const { format, header, checksumName, checksumValid } = restored;
+  const codecName = getCodec(header.algorithm).info.name;
+  const source = format === 'dcpa'
+    ? `${codecName} archive (format v${header.formatVersion})`
+    : `${format} stream (${codecName})`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-2xl mx-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+    >
+      {/* Header */}
+      <div className={`p-6 border-b border-gray-200 dark:border-gray-700 ${
+        checksumValid
+          ? 'bg-gradient-to-r from-green-50 to-blue-50 dark:from-green-900/20 dark:to-blue-900/20'
+          : 'bg-gradient-to-r from-red-50 to-orange-50 dark:from-red-900/20 dark:to-orange-900/20'
+      }`}>
+        <div className="flex items-center space-x-3">
+          <div className={`p-2 rounded-lg ${checksumValid ? 'bg-green-100 dark:bg-green-900/30' : 'bg-red-100 dark:bg-red-900/30'}`}>
+            {checksumValid ? (
+              <FileCheck className="h-6 w-6 text-green-600 dark:text-green-400" />
+            ) : (
+              <FileWarning className="h-6 w-6 text-red-600 dark:text-red-400" />
+            )}
+          </div>
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">
+              {header.fileName}
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Restored from {source}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Statistics */}
+      <div className="p-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          <div className="text-center">
+            <div className="flex items-center justify-center space-x-1 mb-2">
+              <Archive className="h-4 w-4 text-blue-500" />
+              <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Compressed</span>
+            </div>
+            <p className="text-lg font-semibold text-blue-600 dark:text-blue-400">
+              {formatFileSize(archiveSize)}
+            </p>
+          </div>
+
+          <div className="text-center">
+            <div className="flex items-center justify-center space-x-1 mb-2">
+              <FileText className="h-4 w-4 text-gray-500" />
+              <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Restored</span>
+            </div>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">
+              {formatFileSize(restored.data.size)}
+            </p>
+          </div>
+
+          <div className="text-center">
+            <div className="flex items-center justify-center space-x-1 mb-2">
+              {checksumValid ? (
+                <ShieldCheck className="h-4 w-4 text-green-500" />
+              ) : (
+                <ShieldAlert className="h-4 w-4 text-red-500" />
+              )}
+              <span className="text-sm font-medium text-gray-600 dark:text-gray-400">CRC-32</span>
+            </div>
+            <p className={`text-lg font-semibold font-mono ${
+              checksumValid ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+            }`}>
+              {header.crc32.toString(16).padStart(8, '0')}
+            </p>
+          </div>
+        </div>
+
+        <div className={`mb-6 p-4 rounded-lg text-sm ${
+          checksumValid
+            ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400'
+            : 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400'
+        }`}>
+          {checksumValid
+            ? `✅ ${checksumName} checksum and size match the original ${formatFileSize(header.originalSize)} file.`
+            : format === 'dcpa'
+              ? `⚠️ The restored data does not match the checksum recorded in the archive (expected ${formatFileSize(header.originalSize)}). The file may be corrupt.`
+              : `⚠️ The restored data does not match the ${checksumName} checksum recorded in the ${format} trailer. The file may be corrupt.`}
+        </div>
+
+        <motion.button
+          onClick={onDownload}
+          className="w-full flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg font-medium transition-colors"
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          <Download className="h-4 w-4" />
+          <span>Download {header.fileName}</span>
+        </motion.button>
+      </div>
+    </motion.div>
+  );
+}
@@ -2,16 +2,20 @@ import React, { useCallback, useState } from 'react';
 import { Upload, File, X, CheckCircle, AlertCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { FileInfo } from '../types';
+import { readFileInfo } from '../utils/streamingCompression';
+import { formatFileSize } from '../utils/format';
 
 interface FileUploadProps {
   onFileSelect: (file: FileInfo) => void;
+  /** Enables multi-file selection; called instead of onFileSelect when more than one file is chosen */
+  onFilesSelect?: (files: FileInfo[]) => void;
   acceptedTypes?: string[];
   maxSize?: number;
 }
 
-export function FileUpload({ onFileSelect, acceptedTypes = [], maxSize = 10 * 1024 * 1024 }: FileUploadProps) {
+export function FileUpload({ onFileSelect, onFilesSelect, acceptedTypes = [], maxSize = 10 * 1024 * 1024 }: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
-  const [uploadedFile, setUploadedFile] = useState<FileInfo | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<FileInfo[]>([]);
   const [error, setError] = useState<string>('');
 
   const validateFile = (file: File): string | null => {
@@ -28,40 +32,30 @@ export function FileUpload({ onFileSelect, acceptedTypes = [], maxSize = 10 * 10
     return null;
   };
 
-  const processFile = useCallback(async (file: File) => {
-    const validationError = validateFile(file);
-    if (validationError) {
-      setError(validationError);
-      return;
-    }
+  // Invalid files are reported and skipped; the rest still go through
+  const processFiles = useCallback(async (files: File[]) => {
+    const problems: string[] = [];
+    const accepted = files.filter(file => {
+      const validationError = validateFile(file);
+      if (validationError) problems.push(files.length > 1 ? `${file.name}: ${validationError}` : validationError);
+      return !validationError;
+    });
+
+    setError(problems.join('\n'));
+    if (accepted.length === 0) return;
 
-    setError('');
-    
     try {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const fileInfo: FileInfo = {
-          name: file.name,
-          size: file.size,
-          type: file.type,
-          lastModified: file.lastModified,
-          data: e.target?.result as string | ArrayBuffer
-        };
-        
-        setUploadedFile(fileInfo);
-        onFileSelect(fileInfo);
-      };
-      
-      // Read as text for compression algorithms
-      if (file.type.startsWith('text/') || file.name.endsWith('.txt') || file.name.endsWith('.json')) {
-        reader.readAsText(file);
+      const fileInfos = await Promise.all(accepted.map(readFileInfo));
+      setUploadedFiles(fileInfos);
+      if (fileInfos.length > 1 && onFilesSelect) {
+        onFilesSelect(fileInfos);
       } else {
-        reader.readAsDataURL(file);
+        onFileSelect(fileInfos[0]);
       }
-    } catch (err) {
-      setError('Failed to read file');
+    } catch (readError) {
+      setError(readError instanceof Error ? readError.message : 'Failed to read file');
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, onFilesSelect]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -69,34 +63,26 @@ export function FileUpload({ onFileSelect, acceptedTypes = [], maxSize = 10 * 10
     
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      processFile(files[0]);
+      processFiles(onFilesSelect ? files : files.slice(0, 1));
     }
-  }, [processFile]);
+  }, [processFiles, onFilesSelect]);
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      processFile(files[0]);
+      processFiles(Array.from(files));
     }
   };
 
   const removeFile = () => {
-    setUploadedFile(null);
+    setUploadedFiles([]);
     setError('');
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
   return (
     <div className="w-full max-w-md mx-auto">
       <AnimatePresence>
-        {!uploadedFile ? (
+        {uploadedFiles.length === 0 ? (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -121,6 +107,7 @@ export function FileUpload({ onFileSelect, acceptedTypes = [], maxSize = 10 * 10
             <input
               type="file"
               onChange={handleFileInput}
+              multiple={Boolean(onFilesSelect)}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               accept={acceptedTypes.join(',')}
             />
@@ -133,7 +120,9 @@ export function FileUpload({ onFileSelect, acceptedTypes = [], maxSize = 10 * 10
             </motion.div>
             
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
-              {isDragging ? 'Drop your file here' : 'Upload a file'}
+              {isDragging
+                ? onFilesSelect ? 'Drop your files here' : 'Drop your file here'
+                : onFilesSelect ? 'Upload files' : 'Upload a file'}
             </h3>
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
               Drag and drop or click to browse
@@ -162,10 +151,10 @@ export function FileUpload({ onFileSelect, acceptedTypes = [], maxSize = 10 * 10
                 </div>
                 <div className="flex-1 min-w-0">
                   <h4 className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                    {uploadedFile.name}
+                    {uploadedFiles.length === 1 ? uploadedFiles[0].name : `${uploadedFiles.length} files`}
                   </h4>
                   <p className="text-sm text-gray-500 dark:text-gray-400">
-                    {formatFileSize(uploadedFile.size)}
+                    {formatFileSize(uploadedFiles.reduce((total, file) => total + file.size, 0))}
                   </p>
                 </div>
               </div>
@@ -193,7 +182,7 @@ export function FileUpload({ onFileSelect, acceptedTypes = [], maxSize = 10 * 10
             className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center space-x-2"
           >
             <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
-            <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+            <p className="text-sm text-red-700 dark:text-red-400 whitespace-pre-line">{error}</p>
           </motion.div>
         )}
       </AnimatePresence>
@@ -0,0 +1,167 @@
+import { motion } from 'framer-motion';
+import { Archive, CheckCircle, Download, FileOutput, FolderArchive, History, RotateCcw, Trash2, Trophy, XCircle } from 'lucide-react';
+import { historyEntrySource } from '../utils/compressionHistory';
+import { HistoryEntry, HistoryEntryKind } from '../types';
+import { formatFileSize, formatTime } from '../utils/format';
+
+interface HistoryPanelProps {
+  /** Newest first */
+  entries: HistoryEntry[];
+  quota: number;
+  onQuotaChange: (quota: number) => void;
+  onDownload: (entry: HistoryEntry) => void;
+  /** Opens the entry's uncompressed data in the algorithm picker */
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onClear: () => void;
+  error?: string;
+}
+
+const kindIcons: Record<HistoryEntryKind, JSX.Element> = {
+  compress: <Archive className="h-5 w-5 shrink-0 text-blue-500" />,
+  decompress: <FileOutput className="h-5 w-5 shrink-0 text-purple-500" />,
+  compare: <Trophy className="h-5 w-5 shrink-0 text-green-500" />,
+  zip: <FolderArchive className="h-5 w-5 shrink-0 text-orange-500" />
+};
+
+const QUOTA_CHOICES = [25, 100, 250, 500, 1024].map(megabytes => megabytes * 1024 * 1024);
+
+export function HistoryPanel({
+  entries,
+  quota,
+  onQuotaChange,
+  onDownload,
+  onRerun,
+  onDelete,
+  onClear,
+  error
+}: HistoryPanelProps) {
+  const used = entries.reduce((total, entry) => total + entry.storedBytes, 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+    >
+      {/* Header and storage */}
+      <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-gray-500 dark:text-gray-400" />
+            <h3 className="font-semibold text-gray-900 dark:text-white">History</h3>
+            <span className="text-sm text-gray-600 dark:text-gray-400">{entries.length} {entries.length === 1 ? 'job' : 'jobs'}</span>
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+              <span>Keep up to</span>
+              <select
+                value={quota}
+                onChange={(e) => onQuotaChange(Number(e.target.value))}
+                className="rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-2 py-1"
+              >
+                {/* A quota set elsewhere still shows as the current choice */}
+                {!QUOTA_CHOICES.includes(quota) && <option value={quota}>{formatFileSize(quota)}</option>}
+                {QUOTA_CHOICES.map(choice => <option key={choice} value={choice}>{formatFileSize(choice)}</option>)}
+              </select>
+            </label>
+            {entries.length > 0 && (
+              <button
+                onClick={onClear}
+                className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium"
+              >
+                Clear all
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+            <span>{formatFileSize(used)} of {formatFileSize(quota)} used</span>
+            <span>Oldest jobs are removed first</span>
+          </div>
+          <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 rounded-full" style={{ width: `${Math.min(used / quota, 1) * 100}%` }} />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="px-6 py-6 text-sm text-center text-gray-600 dark:text-gray-400">
+          Finished compressions, batches, comparisons, ZIPs and restores are kept here, with their output, across reloads.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700/50">
+          {entries.map(entry => {
+            const source = historyEntrySource(entry);
+            const parameters = Object.entries(entry.parameters);
+
+            return (
+              <li key={entry.id} className="px-6 py-3 flex items-center space-x-3">
+                {kindIcons[entry.kind]}
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {entry.kind === 'compress' || entry.kind === 'compare' ? entry.fileName : `${entry.fileName} → ${entry.outputName}`}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 shrink-0">{new Date(entry.createdAt).toLocaleString()}</p>
+                  </div>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {entry.algorithmName}
+                    {' · '}{formatFileSize(entry.originalSize)}{' → '}{formatFileSize(entry.compressedSize)}{' '}
+                    <span className={entry.compressionRatio > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                      ({entry.compressionRatio.toFixed(1)}%)
+                    </span>
+                    {' · '}{formatTime(entry.processingTime)}
+                    {entry.verified !== undefined && (
+                      <span className={`ml-2 inline-flex items-center space-x-0.5 ${entry.verified ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                        {entry.verified ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+                        <span>{entry.verified ? 'verified' : 'verification failed'}</span>
+                      </span>
+                    )}
+                  </p>
+                  {parameters.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate font-mono">
+                      {parameters.map(([key, value]) => `${key}=${value}`).join(' ')}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => onDownload(entry)}
+                    className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400"
+                    title={`Download ${entry.outputName}`}
+                  >
+                    <Download className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onRerun(entry)}
+                    disabled={!source}
+                    className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={source
+                      ? 'Compress again with another algorithm'
+                      : entry.kind === 'zip' ? 'A ZIP of several files cannot be re-run' : 'The original was too large to keep'}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(entry)}
+                    className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
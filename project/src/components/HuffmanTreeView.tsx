@@ -0,0 +1,351 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronDown, ChevronRight, GitBranch, Maximize2, Pause, Play, SkipBack, SkipForward, ZoomIn, ZoomOut } from 'lucide-react';
+import { HuffmanTrace, HuffmanTraceNode } from '../types';
+import { traceHuffmanTree } from '../utils/compressionAlgorithms';
+
+interface HuffmanTreeViewProps {
+  /** Byte counts of the input, as in the data analysis */
+  counts: number[];
+  /** Block-streamed files build one tree per block; this shows the whole-file tree */
+  blocked?: boolean;
+}
+
+const SPACING_X = 48;
+const SPACING_Y = 72;
+const PADDING = 32;
+const NODE_RADIUS = 16;
+const REPLAY_INTERVAL = 700;
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 8;
+
+interface PlacedNode {
+  node: HuffmanTraceNode;
+  x: number;
+  y: number;
+}
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const initialView: View = { scale: 1, x: 0, y: 0 };
+
+function byteLabel(byte: number): string {
+  const hex = `0x${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+  return byte > 0x20 && byte < 0x7f ? `'${String.fromCharCode(byte)}'` : hex;
+}
+
+/**
+ * Places the forest as it stands after `step` merges: the remaining roots in
+ * queue order (lowest frequency first), each subtree with its leaves side by side.
+ */
+function layoutForest(trace: HuffmanTrace, step: number): PlacedNode[] {
+  const leafCount = trace.nodes.length - trace.merges.length;
+  const mergedAt = new Map<number, number>();
+  trace.merges.forEach((merge, index) => {
+    mergedAt.set(merge.left, index);
+    mergedAt.set(merge.right, index);
+  });
+
+  const roots = trace.nodes
+    .filter(node => node.id < leafCount + step && (mergedAt.get(node.id) ?? Infinity) >= step)
+    .sort((a, b) => a.freq - b.freq || a.id - b.id);
+
+  const placed: PlacedNode[] = [];
+  let cursor = 0;
+  const place = (id: number, depth: number): number => {
+    const node = trace.nodes[id];
+    let x: number;
+    if (node.left === null || node.right === null) {
+      x = cursor++;
+    } else {
+      x = (place(node.left, depth + 1) + place(node.right, depth + 1)) / 2;
+    }
+    placed.push({ node, x: PADDING + x * SPACING_X, y: PADDING + depth * SPACING_Y });
+    return x;
+  };
+  for (const root of roots) place(root.id, 0);
+  return placed;
+}
+
+export function HuffmanTreeView({ counts, blocked = false }: HuffmanTreeViewProps) {
+  const [open, setOpen] = useState(false);
+  const trace = useMemo(() => traceHuffmanTree(counts), [counts]);
+  const [step, setStep] = useState(trace.merges.length);
+  const [playing, setPlaying] = useState(false);
+  const [view, setView] = useState<View>(initialView);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ start: DOMPoint; view: View } | null>(null);
+
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const leafCount = trace.nodes.length - trace.merges.length;
+  const placed = useMemo(() => layoutForest(trace, step), [trace, step]);
+  const positions = new Map(placed.map(entry => [entry.node.id, entry]));
+  // The finished tree is the tallest the forest gets, so the canvas never resizes mid-replay
+  const maxDepth = useMemo(
+    () => layoutForest(trace, trace.merges.length).reduce((deepest, entry) => Math.max(deepest, entry.y), 0),
+    [trace]
+  );
+  const width = Math.max(PADDING * 2 + (leafCount - 1) * SPACING_X, 1);
+  const height = maxDepth + PADDING + NODE_RADIUS * 2;
+  const lastMerge = step > 0 ? trace.merges[step - 1] : null;
+  const nextMerge = step < trace.merges.length ? trace.merges[step] : null;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= trace.merges.length) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(step + 1), REPLAY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, step, trace.merges.length]);
+
+  // Converts a pointer position into the SVG's user space, accounting for its fitted viewBox
+  const toSvgPoint = (clientX: number, clientY: number): DOMPoint => {
+    const svg = svgRef.current!;
+    return new DOMPoint(clientX, clientY).matrixTransform(svg.getScreenCTM()!.inverse());
+  };
+
+  const zoomAt = (factor: number, point?: DOMPoint) => {
+    setView(current => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor));
+      const anchor = point ?? new DOMPoint(width / 2, height / 2);
+      // Keep the content under the anchor in place
+      return {
+        scale,
+        x: anchor.x - ((anchor.x - current.x) * scale) / current.scale,
+        y: anchor.y - ((anchor.y - current.y) * scale) / current.scale
+      };
+    });
+  };
+
+  // React registers wheel listeners as passive, which cannot stop the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(svg.getScreenCTM()!.inverse());
+      zoomAt(event.deltaY < 0 ? 1.2 : 1 / 1.2, point);
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  });
+
+  const describeStep = (): string => {
+    if (trace.merges.length === 0) {
+      return leafCount === 1 ? 'A single symbol needs no merges; it gets the one-bit code 0.' : 'No symbols to code.';
+    }
+    if (!lastMerge) return `${leafCount} leaves, one per byte value. Each step merges the two lowest frequencies.`;
+    const [left, right, parent] = [lastMerge.left, lastMerge.right, lastMerge.parent].map(id => trace.nodes[id]);
+    const name = (node: HuffmanTraceNode) => node.symbol === null ? `subtree (${node.freq})` : `${byteLabel(node.symbol)} (${node.freq})`;
+    return `Merged ${name(left)} and ${name(right)} into a node of ${parent.freq}.`;
+  };
+
+  const buttonClass = 'p-1.5 rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+    >
+      {/* Header */}
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full bg-gradient-to-r from-blue-50 to-green-50 dark:from-blue-900/20 dark:to-green-900/20 p-6 text-left flex items-center justify-between"
+      >
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+            <GitBranch className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Huffman Tree</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {leafCount} symbols, {trace.merges.length} merges
+              {blocked && ' — built from the whole file; each block is coded with its own tree'}
+            </p>
+          </div>
+        </div>
+        {open ? <ChevronDown className="h-5 w-5 text-gray-500" /> : <ChevronRight className="h-5 w-5 text-gray-500" />}
+      </button>
+
+      {open && (
+        <div className="p-6 space-y-6 border-t border-gray-200 dark:border-gray-700">
+          {/* Replay controls */}
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => { setPlaying(false); setStep(0); }} disabled={step === 0} className={buttonClass} title="First step">
+                <SkipBack className="h-4 w-4" />
+              </button>
+              <button
+                onClick={() => {
+                  if (step >= trace.merges.length) setStep(0);
+                  setPlaying(!playing);
+                }}
+                disabled={trace.merges.length === 0}
+                className={buttonClass}
+                title={playing ? 'Pause' : 'Replay the merges'}
+              >
+                {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={() => { setPlaying(false); setStep(Math.min(step + 1, trace.merges.length)); }}
+                disabled={step >= trace.merges.length}
+                className={buttonClass}
+                title="Next merge"
+              >
+                <SkipForward className="h-4 w-4" />
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={trace.merges.length}
+                value={step}
+                onChange={(e) => { setPlaying(false); setStep(Number(e.target.value)); }}
+                disabled={trace.merges.length === 0}
+                className="flex-1 min-w-[8rem]"
+                aria-label="Merge step"
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                Step {step} / {trace.merges.length}
+              </span>
+              <div className="flex items-center border-l border-gray-200 dark:border-gray-700 pl-2">
+                <button onClick={() => zoomAt(1.5)} className={buttonClass} title="Zoom in">
+                  <ZoomIn className="h-4 w-4" />
+                </button>
+                <button onClick={() => zoomAt(1 / 1.5)} className={buttonClass} title="Zoom out">
+                  <ZoomOut className="h-4 w-4" />
+                </button>
+                <button onClick={() => setView(initialView)} className={buttonClass} title="Fit">
+                  <Maximize2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">{describeStep()}</p>
+          </div>
+
+          {/* Tree */}
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${width} ${height}`}
+            className="w-full h-96 bg-gray-50 dark:bg-gray-900/50 rounded-lg cursor-grab active:cursor-grabbing touch-none select-none"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              drag.current = { start: toSvgPoint(e.clientX, e.clientY), view };
+            }}
+            onPointerMove={(e) => {
+              if (!drag.current) return;
+              const point = toSvgPoint(e.clientX, e.clientY);
+              const { start, view: from } = drag.current;
+              setView({ ...from, x: from.x + point.x - start.x, y: from.y + point.y - start.y });
+            }}
+            onPointerUp={() => { drag.current = null; }}
+          >
+            <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+              {placed.map(({ node, x, y }) => [node.left, node.right].map((childId, bit) => {
+                if (childId === null) return null;
+                const child = positions.get(childId)!;
+                const fresh = lastMerge?.parent === node.id;
+                return (
+                  <g key={`${node.id}-${bit}`}>
+                    <line
+                      x1={x}
+                      y1={y}
+                      x2={child.x}
+                      y2={child.y}
+                      className={fresh ? 'stroke-blue-500' : 'stroke-gray-300 dark:stroke-gray-600'}
+                      strokeWidth={fresh ? 2.5 : 1.5}
+                    />
+                    <text
+                      x={(x + child.x) / 2 + (bit ? 6 : -6)}
+                      y={(y + child.y) / 2}
+                      textAnchor="middle"
+                      className="fill-gray-500 dark:fill-gray-400 text-[10px]"
+                    >
+                      {bit}
+                    </text>
+                  </g>
+                );
+              }))}
+
+              {placed.map(({ node, x, y }) => {
+                const fresh = lastMerge !== null && (node.id === lastMerge.parent || node.id === lastMerge.left || node.id === lastMerge.right);
+                const upcoming = nextMerge !== null && (node.id === nextMerge.left || node.id === nextMerge.right);
+                const stroke = upcoming ? 'stroke-orange-500' : fresh ? 'stroke-blue-500' : 'stroke-gray-400 dark:stroke-gray-500';
+                const title = `${node.symbol === null ? 'Internal node' : byteLabel(node.symbol)}: ${node.freq.toLocaleString()}`;
+
+                return node.symbol === null ? (
+                  <g key={node.id}>
+                    <circle cx={x} cy={y} r={NODE_RADIUS} className={`fill-white dark:fill-gray-800 ${stroke}`} strokeWidth={upcoming || fresh ? 2.5 : 1.5} />
+                    <text x={x} y={y + 3} textAnchor="middle" className="fill-gray-700 dark:fill-gray-300 text-[9px]">
+                      {node.freq}
+                    </text>
+                    <title>{title}</title>
+                  </g>
+                ) : (
+                  <g key={node.id}>
+                    <rect
+                      x={x - NODE_RADIUS}
+                      y={y - NODE_RADIUS}
+                      width={NODE_RADIUS * 2}
+                      height={NODE_RADIUS * 2}
+                      rx={4}
+                      className={`fill-green-50 dark:fill-green-900/40 ${stroke}`}
+                      strokeWidth={upcoming || fresh ? 2.5 : 1.5}
+                    />
+                    <text x={x} y={y - 1} textAnchor="middle" className="fill-gray-900 dark:fill-white text-[9px] font-medium">
+                      {byteLabel(node.symbol)}
+                    </text>
+                    <text x={x} y={y + 10} textAnchor="middle" className="fill-gray-600 dark:fill-gray-400 text-[8px]">
+                      {node.freq}
+                    </text>
+                    <title>{title}</title>
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Drag to pan and scroll to zoom. Orange marks the two roots merged next, blue the last merge.
+          </p>
+
+          {/* Code table */}
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white mb-3">Code table</h4>
+            <div className="max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white dark:bg-gray-800">
+                  <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                    <th className="py-2 px-2 text-left font-medium">Symbol</th>
+                    <th className="py-2 px-2 text-right font-medium">Frequency</th>
+                    <th className="py-2 px-2 text-right font-medium">Share</th>
+                    <th className="py-2 px-2 text-right font-medium">Bits</th>
+                    <th className="py-2 px-2 text-left font-medium">Tree code</th>
+                    <th className="py-2 px-2 text-left font-medium" title="Canonical code written to the archive, after length limiting">Written code</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trace.codes.map(entry => (
+                    <tr key={entry.symbol} className="border-b border-gray-100 dark:border-gray-700/50">
+                      <td className="py-1.5 px-2 text-gray-900 dark:text-white">{byteLabel(entry.symbol)}</td>
+                      <td className="py-1.5 px-2 text-right text-gray-900 dark:text-white">{entry.freq.toLocaleString()}</td>
+                      <td className="py-1.5 px-2 text-right text-gray-600 dark:text-gray-400">{((entry.freq / total) * 100).toFixed(2)}%</td>
+                      <td className="py-1.5 px-2 text-right text-gray-900 dark:text-white">{entry.code.length}</td>
+                      <td className="py-1.5 px-2 font-mono text-gray-600 dark:text-gray-400 break-all">{entry.treeCode}</td>
+                      <td className="py-1.5 px-2 font-mono text-gray-900 dark:text-white break-all">{entry.code}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronDown, ChevronRight, Pause, Play, RotateCcw, SkipBack, SkipForward, SlidersHorizontal } from 'lucide-react';
+import { Lz77Token } from '../types';
+import { Lz77Options, lz77Decompress, lz77Encode } from '../utils/compressionAlgorithms';
+
+interface Lz77VisualizerProps {
+  /** Input bytes; only the start is stepped through */
+  data: Uint8Array;
+  /** The settings the file was compressed with, which the step-through starts from */
+  options: Lz77Options;
+}
+
+type Direction = 'compress' | 'decompress';
+
+const SAMPLE_SIZE = 512;
+// Small windows make the sliding visible on a short sample; the compressor's own settings are always offered too
+const WINDOW_CHOICES = [16, 32, 64, 256];
+const LOOK_AHEAD_CHOICES = [8, 18];
+const TOKEN_CONTEXT = 4;
+
+function byteGlyph(byte: number): string {
+  if (byte === 0x20) return '␣';
+  if (byte === 0x0a) return '↵';
+  if (byte > 0x20 && byte < 0x7f) return String.fromCharCode(byte);
+  return byte.toString(16).toUpperCase().padStart(2, '0');
+}
+
+function describeToken(token: Lz77Token): string {
+  return token.type === 'match'
+    ? `Match: offset ${token.offset}, length ${token.length}`
+    : `Literal ${byteGlyph(token.byte)}`;
+}
+
+function tokenLength(token: Lz77Token): number {
+  return token.type === 'match' ? token.length : 1;
+}
+
+function withChoice(choices: number[], value: number): number[] {
+  return [...new Set([...choices, value])].sort((a, b) => a - b);
+}
+
+export function Lz77Visualizer({ data, options: usedOptions }: Lz77VisualizerProps) {
+  const [open, setOpen] = useState(false);
+  const [direction, setDirection] = useState<Direction>('compress');
+  const [options, setOptions] = useState<Lz77Options>(usedOptions);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(4);
+
+  const sample = useMemo(() => data.subarray(0, SAMPLE_SIZE), [data]);
+  // Both directions record the tokens the real encoder and decoder produce for the sample
+  const { tokens, payloadSize } = useMemo(() => {
+    const encoded: Lz77Token[] = [];
+    const payload = lz77Encode(sample, options, token => encoded.push(token));
+    if (direction === 'compress') return { tokens: encoded, payloadSize: payload.length };
+    const decoded: Lz77Token[] = [];
+    lz77Decompress(payload, token => decoded.push(token));
+    return { tokens: decoded, payloadSize: payload.length };
+  }, [sample, options, direction]);
+
+  useEffect(() => {
+    setStep(0);
+    setPlaying(false);
+  }, [tokens]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= tokens.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(step + 1), 1000 / speed);
+    return () => clearTimeout(timer);
+  }, [playing, step, speed, tokens.length]);
+
+  const token = tokens[step] as Lz77Token | undefined;
+  const position = token?.position ?? 0;
+  const length = token ? tokenLength(token) : 0;
+  const windowStart = Math.max(0, position - options.windowSize);
+  const lookAheadEnd = Math.min(sample.length, position + options.lookAheadSize);
+  const sourceStart = token?.type === 'match' ? position - token.offset : -1;
+  const offsetBits = Math.max(1, Math.ceil(Math.log2(options.windowSize)));
+  const lengthBits = Math.max(1, Math.ceil(Math.log2(options.lookAheadSize - 2)));
+  const usesOwnSettings = options.windowSize !== usedOptions.windowSize || options.lookAheadSize !== usedOptions.lookAheadSize;
+  const done = tokens.slice(0, step + 1);
+  const matchCount = done.filter(entry => entry.type === 'match').length;
+  const bitsSoFar = done.reduce((total, entry) => total + (entry.type === 'match' ? 1 + offsetBits + lengthBits : 9), 0);
+
+  const cellClass = (index: number): string => {
+    const inCurrent = index >= position && index < position + length;
+    const inSource = sourceStart >= 0 && index >= sourceStart && index < sourceStart + length;
+    const ring = inSource ? ' ring-2 ring-green-500' : '';
+
+    if (direction === 'decompress') {
+      // The decoder only has what it has written so far
+      if (inCurrent) return `${token?.type === 'match' ? 'bg-green-200 dark:bg-green-800' : 'bg-orange-200 dark:bg-orange-800'} text-gray-900 dark:text-white${ring}`;
+      if (index >= position) return 'text-transparent bg-gray-100 dark:bg-gray-900/50';
+      return `${index >= windowStart ? 'bg-blue-100 dark:bg-blue-900/40' : 'bg-gray-50 dark:bg-gray-900/30'} text-gray-900 dark:text-white${ring}`;
+    }
+
+    if (inCurrent) return `${token?.type === 'match' ? 'bg-green-200 dark:bg-green-800' : 'bg-orange-200 dark:bg-orange-800'} text-gray-900 dark:text-white`;
+    if (index >= position && index < lookAheadEnd) return 'bg-yellow-100 dark:bg-yellow-900/40 text-gray-900 dark:text-white';
+    if (index >= windowStart && index < position) return `bg-blue-100 dark:bg-blue-900/40 text-gray-900 dark:text-white${ring}`;
+    if (index < windowStart) return 'bg-gray-50 dark:bg-gray-900/30 text-gray-400 dark:text-gray-600';
+    return 'text-gray-400 dark:text-gray-600';
+  };
+
+  const buttonClass = 'p-1.5 rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white disabled:opacity-40 disabled:cursor-not-allowed';
+  const selectClass = 'rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white px-2 py-1';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+    >
+      {/* Header */}
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full bg-gradient-to-r from-blue-50 to-green-50 dark:from-blue-900/20 dark:to-green-900/20 p-6 text-left flex items-center justify-between"
+      >
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+            <SlidersHorizontal className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">LZ77 Step-Through</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Sliding window and look-ahead over the first {sample.length} bytes
+            </p>
+          </div>
+        </div>
+        {open ? <ChevronDown className="h-5 w-5 text-gray-500" /> : <ChevronRight className="h-5 w-5 text-gray-500" />}
+      </button>
+
+      {open && (
+        <div className="p-6 space-y-6 border-t border-gray-200 dark:border-gray-700">
+          {/* Settings */}
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <div className="inline-flex p-1 bg-gray-100 dark:bg-gray-900/50 rounded-lg">
+              {(['compress', 'decompress'] as Direction[]).map(choice => (
+                <button
+                  key={choice}
+                  onClick={() => setDirection(choice)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    direction === choice
+                      ? 'bg-white dark:bg-gray-700 text-blue-600 dark:text-blue-400 shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                  }`}
+                >
+                  {choice === 'compress' ? 'Compress' : 'Decompress'}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+              <span>Window</span>
+              <select
+                value={options.windowSize}
+                onChange={(e) => setOptions({ ...options, windowSize: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {withChoice(WINDOW_CHOICES, usedOptions.windowSize).map(choice => (
+                  <option key={choice} value={choice}>{choice} B{choice === usedOptions.windowSize ? ' (used)' : ''}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+              <span>Look-ahead</span>
+              <select
+                value={options.lookAheadSize}
+                onChange={(e) => setOptions({ ...options, lookAheadSize: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {withChoice(LOOK_AHEAD_CHOICES, usedOptions.lookAheadSize).map(choice => (
+                  <option key={choice} value={choice}>{choice} B{choice === usedOptions.lookAheadSize ? ' (used)' : ''}</option>
+                ))}
+              </select>
+            </label>
+            {usesOwnSettings && (
+              <button
+                onClick={() => setOptions(usedOptions)}
+                className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+              >
+                Back to the settings used
+              </button>
+            )}
+          </div>
+
+          {/* Playback */}
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={() => { setPlaying(false); setStep(0); }} disabled={step === 0} className={buttonClass} title="Restart">
+              <RotateCcw className="h-4 w-4" />
+            </button>
+            <button onClick={() => { setPlaying(false); setStep(Math.max(step - 1, 0)); }} disabled={step === 0} className={buttonClass} title="Previous token">
+              <SkipBack className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => {
+                if (step >= tokens.length - 1) setStep(0);
+                setPlaying(!playing);
+              }}
+              disabled={tokens.length < 2}
+              className={buttonClass}
+              title={playing ? 'Pause' : 'Play'}
+            >
+              {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </button>
+            <button
+              onClick={() => { setPlaying(false); setStep(Math.min(step + 1, tokens.length - 1)); }}
+              disabled={step >= tokens.length - 1}
+              className={buttonClass}
+              title="Next token"
+            >
+              <SkipForward className="h-4 w-4" />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={Math.max(tokens.length - 1, 0)}
+              value={step}
+              onChange={(e) => { setPlaying(false); setStep(Number(e.target.value)); }}
+              className="flex-1 min-w-[8rem]"
+              aria-label="Token"
+            />
+            <span className="text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+              Token {tokens.length > 0 ? step + 1 : 0} / {tokens.length}
+            </span>
+            <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400 border-l border-gray-200 dark:border-gray-700 pl-2">
+              <span>Speed</span>
+              <input type="range" min={1} max={20} value={speed} onChange={(e) => setSpeed(Number(e.target.value))} aria-label="Tokens per second" />
+              <span className="w-12">{speed}/s</span>
+            </label>
+          </div>
+
+          {token && (
+            <p className="text-sm text-gray-900 dark:text-white">
+              <span className="font-medium">{direction === 'compress' ? 'Emitted' : 'Read'}:</span>{' '}
+              {describeToken(token)}
+              <span className="text-gray-600 dark:text-gray-400">
+                {token.type === 'match'
+                  ? direction === 'compress'
+                    ? ` — the longest match for the look-ahead, ${token.offset} bytes back in the window`
+                    : ` — copies ${token.length} bytes starting ${token.offset} back, byte by byte so overlaps repeat`
+                  : direction === 'compress'
+                    ? ' — no match of 3 or more bytes in the window'
+                    : ' — written as is'}
+              </span>
+            </p>
+          )}
+
+          {/* Byte strip */}
+          <div className="flex flex-wrap gap-0.5 font-mono text-xs max-h-80 overflow-y-auto">
+            {Array.from(sample, (byte, index) => (
+              <span
+                key={index}
+                className={`w-6 h-6 inline-flex items-center justify-center rounded ${cellClass(index)}`}
+                title={`Byte ${index}: 0x${byte.toString(16).toUpperCase().padStart(2, '0')}`}
+              >
+                {byteGlyph(byte)}
+              </span>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+            <span className="inline-flex items-center space-x-1"><span className="w-3 h-3 rounded bg-blue-100 dark:bg-blue-900/40" /><span>Window</span></span>
+            {direction === 'compress' && (
+              <span className="inline-flex items-center space-x-1"><span className="w-3 h-3 rounded bg-yellow-100 dark:bg-yellow-900/40" /><span>Look-ahead</span></span>
+            )}
+            <span className="inline-flex items-center space-x-1"><span className="w-3 h-3 rounded ring-2 ring-green-500" /><span>Match source</span></span>
+            <span className="inline-flex items-center space-x-1"><span className="w-3 h-3 rounded bg-green-200 dark:bg-green-800" /><span>{direction === 'compress' ? 'Matched bytes' : 'Copied bytes'}</span></span>
+            <span className="inline-flex items-center space-x-1"><span className="w-3 h-3 rounded bg-orange-200 dark:bg-orange-800" /><span>Literal</span></span>
+          </div>
+
+          {/* Token stream */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+            <div className="sm:col-span-2">
+              <h4 className="font-medium text-gray-900 dark:text-white mb-2">Token stream</h4>
+              <ol className="text-sm font-mono space-y-0.5">
+                {tokens.slice(Math.max(0, step - TOKEN_CONTEXT), step + TOKEN_CONTEXT + 1).map((entry, index) => {
+                  const tokenIndex = Math.max(0, step - TOKEN_CONTEXT) + index;
+                  return (
+                    <li
+                      key={tokenIndex}
+                      className={`px-2 py-0.5 rounded ${
+                        tokenIndex === step ? 'bg-blue-100 dark:bg-blue-900/40 text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'
+                      }`}
+                    >
+                      #{tokenIndex + 1} @{entry.position} {entry.type === 'match' ? `(${entry.offset}, ${entry.length})` : `'${byteGlyph(entry.byte)}'`}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+            <dl className="grid grid-cols-2 gap-2 text-sm content-start">
+              <dt className="text-gray-600 dark:text-gray-400">Matches</dt>
+              <dd className="text-right text-gray-900 dark:text-white">{matchCount}</dd>
+              <dt className="text-gray-600 dark:text-gray-400">Literals</dt>
+              <dd className="text-right text-gray-900 dark:text-white">{done.length - matchCount}</dd>
+              <dt className="text-gray-600 dark:text-gray-400">Bits so far</dt>
+              <dd className="text-right text-gray-900 dark:text-white">{bitsSoFar} / {(position + length) * 8}</dd>
+              <dt className="text-gray-600 dark:text-gray-400">Payload</dt>
+              <dd className="text-right text-gray-900 dark:text-white">{payloadSize} B</dd>
+            </dl>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            A match costs 1 + {offsetBits} + {lengthBits} bits, a literal 9. This file was compressed with a {usedOptions.windowSize} B
+            window, a {usedOptions.lookAheadSize} B look-ahead and a search depth of {usedOptions.maxChainDepth}
+            {usesOwnSettings && '; the step-through above uses the settings picked here instead'}.
+          </p>
+        </div>
+      )}
+    </motion.div>
+  );
+}
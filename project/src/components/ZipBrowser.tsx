@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Archive, Download, Folder, Loader2, Lock, RefreshCw } from 'lucide-react';
+import { ZipEntry } from '../types';
+import { isZipEntrySupported, zipMethodName } from '../utils/zip';
+import { formatFileSize } from '../utils/format';
+
+interface ZipBrowserProps {
+  archiveName: string;
+  archiveSize: number;
+  entries: ZipEntry[];
+  /** Entry being extracted, shown with a spinner; actions are disabled meanwhile */
+  busyEntry: ZipEntry | null;
+  onExtract: (entry: ZipEntry) => void;
+  onRecompress: (entries: ZipEntry[]) => void;
+}
+
+export function ZipBrowser({ archiveName, archiveSize, entries, busyEntry, onExtract, onRecompress }: ZipBrowserProps) {
+  // Keyed by local header offset, which is unique even when names repeat
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const files = entries.filter(entry => !entry.isDirectory);
+  const extractable = files.filter(isZipEntrySupported);
+  const selectedEntries = extractable.filter(entry => selected.has(entry.localHeaderOffset));
+  const totalSize = files.reduce((total, entry) => total + entry.size, 0);
+  const busy = busyEntry !== null;
+
+  const toggle = (entry: ZipEntry) => {
+    const next = new Set(selected);
+    if (next.has(entry.localHeaderOffset)) next.delete(entry.localHeaderOffset);
+    else next.add(entry.localHeaderOffset);
+    setSelected(next);
+  };
+
+  const toggleAll = () => {
+    setSelected(selectedEntries.length === extractable.length ? new Set() : new Set(extractable.map(entry => entry.localHeaderOffset)));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="w-full max-w-4xl mx-auto bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden"
+    >
+      {/* Header */}
+      <div className="bg-gradient-to-r from-green-50 to-blue-50 dark:from-green-900/20 dark:to-blue-900/20 p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-green-100 dark:bg-green-900/30 rounded-lg">
+              <Archive className="h-6 w-6 text-green-600 dark:text-green-400" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{archiveName}</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {files.length} files, {formatFileSize(totalSize)} unpacked from {formatFileSize(archiveSize)}
+              </p>
+            </div>
+          </div>
+
+          <motion.button
+            onClick={() => onRecompress(selectedEntries)}
+            disabled={selectedEntries.length === 0 || busy}
+            className="flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-3 rounded-lg font-medium transition-colors"
+            whileHover={selectedEntries.length > 0 && !busy ? { scale: 1.02 } : undefined}
+            whileTap={selectedEntries.length > 0 && !busy ? { scale: 0.98 } : undefined}
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Re-compress {selectedEntries.length > 0 ? `${selectedEntries.length} selected` : 'selected'}</span>
+          </motion.button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="p-6 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+              <th className="py-2 px-2 text-left w-8">
+                <input
+                  type="checkbox"
+                  checked={extractable.length > 0 && selectedEntries.length === extractable.length}
+                  onChange={toggleAll}
+                  disabled={extractable.length === 0}
+                  aria-label="Select all"
+                />
+              </th>
+              <th className="py-2 px-2 text-left font-medium">Name</th>
+              <th className="py-2 px-2 text-right font-medium">Size</th>
+              <th className="py-2 px-2 text-right font-medium">Packed</th>
+              <th className="py-2 px-2 text-right font-medium">Method</th>
+              <th className="py-2 px-2 text-right font-medium">Modified</th>
+              <th className="py-2 px-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => {
+              const supported = isZipEntrySupported(entry);
+              const isBusy = busyEntry === entry;
+
+              return (
+                <tr key={entry.localHeaderOffset} className="border-b border-gray-100 dark:border-gray-700/50">
+                  <td className="py-2 px-2">
+                    {supported && (
+                      <input
+                        type="checkbox"
+                        checked={selected.has(entry.localHeaderOffset)}
+                        onChange={() => toggle(entry)}
+                        aria-label={`Select ${entry.name}`}
+                      />
+                    )}
+                  </td>
+                  <td className="py-2 px-2 text-gray-900 dark:text-white">
+                    <span className="inline-flex items-center space-x-1 break-all">
+                      {entry.isDirectory && <Folder className="h-4 w-4 shrink-0 text-gray-400" />}
+                      {entry.encrypted && <Lock className="h-4 w-4 shrink-0 text-gray-400" />}
+                      <span>{entry.name}</span>
+                    </span>
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-900 dark:text-white whitespace-nowrap">
+                    {entry.isDirectory ? '' : formatFileSize(entry.size)}
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                    {entry.isDirectory ? '' : formatFileSize(entry.compressedSize)}
+                  </td>
+                  <td className={`py-2 px-2 text-right whitespace-nowrap ${
+                    entry.isDirectory || supported ? 'text-gray-600 dark:text-gray-400' : 'text-orange-600 dark:text-orange-400'
+                  }`}>
+                    {entry.isDirectory ? '' : entry.encrypted ? 'Encrypted' : zipMethodName(entry.method)}
+                  </td>
+                  <td className="py-2 px-2 text-right text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                    {new Date(entry.lastModified).toLocaleString()}
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    {supported && (
+                      <button
+                        onClick={() => onExtract(entry)}
+                        disabled={busy}
+                        className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={`Extract ${entry.name}`}
+                      >
+                        {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+}
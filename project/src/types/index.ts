@@ -1,11 +1,27 @@
+import { LucideIcon } from 'lucide-react';
+
+export type AlgorithmParameters = Record<string, number | string>;
+
 export interface CompressionResult {
   originalSize: number;
   compressedSize: number;
   compressionRatio: number;
   processingTime: number;
   algorithm: string;
-  compressedData: string | Uint8Array;
-  originalData: string | Uint8Array;
+  algorithmId: CompressionAlgorithm;
+  parameters: AlgorithmParameters;
+  /** Omitted for block-streamed jobs, whose data is never held as one buffer */
+  compressedData?: Uint8Array;
+  originalData?: Uint8Array;
+  blockCount?: number;
+  /** Order-0 Shannon entropy of the input in bits per byte, the limit for a memoryless coder */
+  entropy?: number;
+  /** Byte statistics of the input; absent for ZIP archives, which hold many inputs */
+  analysis?: DataAnalysis;
+  /** Decoding the output gave back the input, by length and CRC-32; absent when it was not checked */
+  verified?: boolean;
+  /** Why decoding failed, when it threw rather than returning different bytes */
+  verificationError?: string;
 }
 
 export interface FileInfo {
@@ -13,7 +29,9 @@ export interface FileInfo {
   size: number;
   type: string;
   lastModified: number;
-  data: string | ArrayBuffer;
+  file: File;
+  /** File contents, or null when the file is large enough to be streamed in blocks */
+  data: ArrayBuffer | null;
 }
 
 export interface AlgorithmInfo {
@@ -22,12 +40,354 @@ export interface AlgorithmInfo {
   complexity: string;
   bestFor: string[];
   worstFor: string[];
+  /** Reference implementation provided by the browser rather than this app */
+  baseline?: boolean;
 }
 
-export type CompressionAlgorithm = 'huffman' | 'rle' | 'lz77';
+/** Id of a registered codec (see codecRegistry.ts) */
+export type CompressionAlgorithm = string;
+
+/**
+ * A tunable encoder setting, recorded under `key` in the result parameters.
+ * `atMost` names another number option this one may not exceed.
+ */
+export type CodecOption =
+  | { type: 'number'; key: string; label: string; min: number; max: number; step?: number; default: number; atMost?: string }
+  | { type: 'choice'; key: string; label: string; choices: string[]; default: string };
+
+export interface UnwrappedStream {
+  data: Uint8Array;
+  /** Original file name, for formats that store one */
+  fileName?: string;
+  checksumValid: boolean;
+}
+
+/** A file format defined outside this app that a codec's payload can be saved as */
+export interface StandardFormat {
+  /** Shown to users and reported as `RestoredFile.format`, e.g. 'gzip' */
+  name: string;
+  /** The download extension first, then others stripped from restored file names */
+  extensions: string[];
+  checksumName: string;
+  /** Whole files can be joined end to end, so block mode can write one per block */
+  concatenable: boolean;
+  /** Results with these parameters download in this format; restored files report them */
+  parameters: AlgorithmParameters;
+  detect: (prefix: Uint8Array) => boolean;
+  wrap: (payload: Uint8Array, original: Uint8Array, fileName: string) => Uint8Array;
+  unwrap: (data: Uint8Array) => UnwrappedStream;
+  /** Reads the stored file name from the start of a file, for formats that keep one */
+  storedFileName?: (prefix: Uint8Array) => string | undefined;
+}
+
+export interface CodecCapabilities {
+  /** Round-trips any byte sequence, not just text */
+  binary: boolean;
+  /** Can compress large files as a sequence of independent blocks */
+  streaming: boolean;
+  standardFormats?: StandardFormat[];
+  /** Kept only to open archives an older encoder wrote; hidden from the picker and compare mode */
+  decodeOnly?: boolean;
+}
+
+export interface Codec {
+  id: CompressionAlgorithm;
+  /** Identifies the codec in .dcpa archive headers; never reuse a retired id */
+  archiveId: number;
+  info: AlgorithmInfo;
+  icon: LucideIcon;
+  options: CodecOption[];
+  capabilities: CodecCapabilities;
+  /** False when the codec relies on a platform feature this browser lacks */
+  isAvailable?: () => boolean;
+  /** `options` holds a valid value for every declared option (see resolveCodecOptions) */
+  compress: (
+    data: Uint8Array,
+    onProgress: ((progress: ProcessingProgress) => void) | undefined,
+    options: AlgorithmParameters
+  ) => CompressionResult | Promise<CompressionResult>;
+  /** Decodes a payload produced by `compress`, without any archive framing */
+  decompress: (payload: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+}
 
 export interface ProcessingProgress {
   stage: string;
   progress: number;
   message: string;
-}
\ No newline at end of file
+  /** Added by the worker's progress tracker; codecs only report the fields above */
+  telemetry?: ProgressTelemetry;
+}
+
+export interface StageTiming {
+  stage: string;
+  elapsedMs: number;
+}
+
+export interface ProgressTelemetry {
+  /** Input bytes, estimated from the overall progress */
+  bytesProcessed: number;
+  totalBytes: number;
+  elapsedMs: number;
+  bytesPerSecond: number;
+  /** Null until there is enough progress to extrapolate from */
+  etaMs: number | null;
+  /** Time spent in each stage so far, in the order they ran */
+  stages: StageTiming[];
+}
+
+export interface ArchiveHeader {
+  formatVersion: number;
+  algorithm: CompressionAlgorithm;
+  /** Payload is a sequence of independently compressed blocks */
+  blocked: boolean;
+  fileName: string;
+  originalSize: number;
+  crc32: number;
+  parameters: AlgorithmParameters;
+  /** Byte offset of the codec payload within the archive */
+  payloadOffset: number;
+}
+
+export interface DecompressionResult {
+  header: ArchiveHeader;
+  data: Uint8Array;
+  checksumValid: boolean;
+}
+
+/** Container a compressed upload was recognised as: 'dcpa' or a standard format's name */
+export type ContainerFormat = string;
+
+export interface RestoredFile {
+  format: ContainerFormat;
+  /** Synthesized from the stream and its trailer for standard formats */
+  header: ArchiveHeader;
+  data: Blob;
+  checksumName: string;
+  checksumValid: boolean;
+}
+
+/** Repeated 4-byte strings whose previous occurrence lies within `maxDistance` bytes */
+export interface RepeatDistanceBucket {
+  label: string;
+  maxDistance: number;
+  count: number;
+}
+
+/** What the input itself allows, independent of any codec */
+export interface DataAnalysis {
+  size: number;
+  /** Occurrences of each of the 256 byte values */
+  histogram: number[];
+  distinctBytes: number;
+  /** Shannon entropy in bits per byte, with no context */
+  entropy0: number;
+  /** Shannon entropy in bits per byte, given the byte before */
+  entropy1: number;
+  /** Smallest output in bytes for a coder using order-0 and order-1 statistics, excluding the model itself */
+  order0Bound: number;
+  order1Bound: number;
+  runs: {
+    /** Maximal runs of one repeated byte; a byte that differs from both neighbours is a run of one */
+    count: number;
+    meanLength: number;
+    longest: number;
+    longestByte: number;
+    /** Bytes inside runs of four or more */
+    bytesInLongRuns: number;
+  };
+  repeats: {
+    /** Share of 4-byte strings that already occurred earlier in the input */
+    coverage: number;
+    buckets: RepeatDistanceBucket[];
+  };
+}
+
+/** A Huffman tree node; leaves come first, then one internal node per merge */
+export interface HuffmanTraceNode {
+  id: number;
+  /** Byte value of a leaf, null for internal nodes */
+  symbol: number | null;
+  freq: number;
+  left: number | null;
+  right: number | null;
+}
+
+/** One step of tree construction: the two lowest-frequency roots become children of a new node */
+export interface HuffmanMerge {
+  left: number;
+  right: number;
+  parent: number;
+}
+
+export interface HuffmanCodeEntry {
+  symbol: number;
+  freq: number;
+  /** Code read off the tree, 0 for each left branch */
+  treeCode: string;
+  /** Canonical code actually written, after length limiting */
+  code: string;
+}
+
+/** Everything huffmanCompress derives from a frequency table, kept for display */
+export interface HuffmanTrace {
+  nodes: HuffmanTraceNode[];
+  root: number | null;
+  merges: HuffmanMerge[];
+  /** Most frequent symbol first */
+  codes: HuffmanCodeEntry[];
+}
+
+/** One LZ77 token and the input position it covers from */
+export type Lz77Token =
+  | { type: 'literal'; position: number; byte: number }
+  | { type: 'match'; position: number; offset: number; length: number };
+
+/** One codec's run in compare mode */
+export interface ComparisonEntry {
+  algorithm: CompressionAlgorithm;
+  name: string;
+  /** Without its data buffers; absent when the codec threw while compressing */
+  result?: CompressionResult;
+  decompressionTime?: number;
+  /** Decompressing the output gave back the input byte for byte */
+  roundTrip: boolean;
+  archive?: Blob;
+  archiveName?: string;
+  error?: string;
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** One file in a batch compression queue */
+export interface BatchJob {
+  id: number;
+  file: FileInfo;
+  algorithm: CompressionAlgorithm;
+  /** Encoder settings, the same for every job added together */
+  options: AlgorithmParameters;
+  status: BatchJobStatus;
+  progress: ProcessingProgress;
+  /** Runs started so far, including automatic retries */
+  attempts: number;
+  /** Without its data buffers; set once the job is done */
+  result?: CompressionResult;
+  archive?: Blob;
+  archiveName?: string;
+  error?: string;
+}
+
+export interface BatchQueueOptions {
+  /** Jobs compressing at once, each in its own worker */
+  concurrency: number;
+  /** Extra attempts a failing job gets before it is marked failed */
+  maxRetries: number;
+}
+
+export type ZipMethod = 'stored' | 'deflated';
+
+/** A file to add to a ZIP archive, read in the worker one entry at a time */
+export interface ZipInputFile {
+  name: string;
+  data: Blob;
+  lastModified: number;
+}
+
+export type BenchmarkCorpusId = 'random' | 'english' | 'runs' | 'csv' | 'json' | 'source';
+
+export interface BenchmarkCorpusInfo {
+  id: BenchmarkCorpusId;
+  name: string;
+  description: string;
+}
+
+/** What a benchmark run covers; the same settings always generate the same corpora */
+export interface BenchmarkConfig {
+  corpora: BenchmarkCorpusId[];
+  corpusSize: number;
+  /** Runs per codec and corpus; times are the median over these */
+  iterations: number;
+  seed: number;
+}
+
+/** One codec on one corpus */
+export interface BenchmarkRow {
+  corpus: BenchmarkCorpusId;
+  algorithm: CompressionAlgorithm;
+  name: string;
+  originalSize: number;
+  compressedSize: number;
+  /** Percentage saved, as in CompressionResult */
+  compressionRatio: number;
+  compressMs: number;
+  decompressMs: number;
+  /** Every iteration decoded back to the corpus byte for byte */
+  roundTrip: boolean;
+  error?: string;
+}
+
+/**
+ * A compression (single or batch), a restore of a received archive, the
+ * winner of a comparison run, or a ZIP of several files
+ */
+export type HistoryEntryKind = 'compress' | 'decompress' | 'compare' | 'zip';
+
+/** A finished job kept in the history panel, with its output */
+export interface HistoryEntry {
+  id: number;
+  kind: HistoryEntryKind;
+  createdAt: number;
+  /** The uploaded file: the original for compressions, the archive for restores, a file count for ZIPs */
+  fileName: string;
+  algorithm: CompressionAlgorithm;
+  algorithmName: string;
+  parameters: AlgorithmParameters;
+  originalSize: number;
+  compressedSize: number;
+  compressionRatio: number;
+  processingTime: number;
+  /** Round trip or checksum result; absent when it was not checked */
+  verified?: boolean;
+  /** The archive for compressions, the restored file for restores */
+  output: Blob;
+  outputName: string;
+  /** Uncompressed input of a compression, for re-running it; null for ZIPs and when it did not fit in the quota */
+  original: Blob | null;
+  /** Bytes of blobs this entry holds, counted against the history quota */
+  storedBytes: number;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'storedBytes'>;
+
+/** One central directory record of a ZIP archive */
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  name: string;
+  /** Raw compression method code: 0 stored, 8 deflated, anything else unsupported */
+  method: number;
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  lastModified: number;
+  isDirectory: boolean;
+  encrypted: boolean;
+  localHeaderOffset: number;
+}
+
+// Messages exchanged with the compression worker
+export type CompressionWorkerRequest =
+  | { type: 'compress'; algorithm: CompressionAlgorithm; options: AlgorithmParameters; fileName: string; data: ArrayBuffer }
+  | { type: 'compress-blocks'; algorithm: CompressionAlgorithm; options: AlgorithmParameters; fileName: string; file: Blob; blockSize: number }
+  | { type: 'decompress'; archive: Blob; fileName: string }
+  | { type: 'compare'; fileName: string; data: ArrayBuffer }
+  | { type: 'zip'; files: ZipInputFile[]; method: ZipMethod; archiveName: string }
+  | { type: 'unzip-entry'; archive: Blob; entry: ZipEntry }
+  | { type: 'benchmark'; config: BenchmarkConfig };
+
+export type CompressionWorkerResponse =
+  | { type: 'progress'; progress: ProcessingProgress }
+  | { type: 'compressed'; result: CompressionResult; archive: Blob; archiveName: string }
+  | { type: 'decompressed'; result: RestoredFile }
+  | { type: 'compared'; entries: ComparisonEntry[]; analysis: DataAnalysis }
+  | { type: 'unzipped'; data: Blob }
+  | { type: 'benchmarked'; rows: BenchmarkRow[] }
+  | { type: 'error'; message: string };
@@ -0,0 +1,19 @@
+// Adler-32 checksum (RFC 1950), the trailer of zlib streams
+const ADLER_MODULUS = 65521;
+// Largest block that cannot overflow the sums before reducing them
+const ADLER_BLOCK = 5552;
+
+export function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let start = 0; start < data.length; start += ADLER_BLOCK) {
+    const end = Math.min(start + ADLER_BLOCK, data.length);
+    for (let i = start; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= ADLER_MODULUS;
+    b %= ADLER_MODULUS;
+  }
+  return ((b << 16) | a) >>> 0;
+}
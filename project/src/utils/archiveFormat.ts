@@ -0,0 +1,173 @@
+import { AlgorithmParameters, ArchiveHeader } from '../types';
+import { codecForArchiveId, getCodec } from './codecRegistry';
+
+// Portal archive container (all integers little-endian)
+//
+//   offset  size  field
+//   0       4     magic "DCPA"
+//   4       1     format version
+//   5       1     algorithm id (the codec's registered archiveId)
+//   6       2     flags (bit 0: payload is split into independent blocks)
+//   8       4     header length, i.e. offset of the payload
+//   12      8     original size in bytes
+//   20      4     CRC-32 of the original data
+//   24      2     file name length N
+//   26      N     file name (UTF-8)
+//   26+N    2     parameters length M
+//   28+N    M     algorithm parameters (UTF-8 JSON object)
+//   ...           codec payload up to the end of the file
+//
+// Block mode payloads are a sequence of frames, each compressed on its own:
+//
+//   4     original block length
+//   4     compressed block length L
+//   L     codec payload for the block
+//
+// Readers skip anything between the parameters and the header length, so
+// later versions can append header fields without breaking older files.
+
+export const ARCHIVE_MAGIC = new Uint8Array([0x44, 0x43, 0x50, 0x41]);
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_EXTENSION = '.dcpa';
+
+const FIXED_HEADER_SIZE = 24;
+const FLAG_BLOCKS = 0x0001;
+const KNOWN_FLAGS = FLAG_BLOCKS;
+
+/** Bytes needed to learn the full header length of an archive */
+export const ARCHIVE_PREFIX_SIZE = 12;
+export const BLOCK_FRAME_HEADER_SIZE = 8;
+
+export function isArchive(data: Uint8Array): boolean {
+  return data.length >= ARCHIVE_MAGIC.length && ARCHIVE_MAGIC.every((byte, i) => data[i] === byte);
+}
+
+export function readArchiveHeaderLength(prefix: Uint8Array): number {
+  if (!isArchive(prefix) || prefix.length < ARCHIVE_PREFIX_SIZE) {
+    throw new Error('Not a compression portal archive (bad magic number)');
+  }
+  return new DataView(prefix.buffer, prefix.byteOffset, prefix.byteLength).getUint32(8, true);
+}
+
+export function writeArchiveHeader(header: Omit<ArchiveHeader, 'formatVersion' | 'payloadOffset'>): Uint8Array {
+  const encoder = new TextEncoder();
+  const nameBytes = encoder.encode(header.fileName);
+  const paramBytes = encoder.encode(JSON.stringify(header.parameters));
+
+  if (nameBytes.length > 0xffff || paramBytes.length > 0xffff) {
+    throw new Error('File name or parameters too long for archive header');
+  }
+
+  const headerLength = FIXED_HEADER_SIZE + 2 + nameBytes.length + 2 + paramBytes.length;
+  const archive = new Uint8Array(headerLength);
+  const view = new DataView(archive.buffer);
+
+  archive.set(ARCHIVE_MAGIC, 0);
+  view.setUint8(4, ARCHIVE_VERSION);
+  view.setUint8(5, getCodec(header.algorithm).archiveId);
+  view.setUint16(6, header.blocked ? FLAG_BLOCKS : 0, true);
+  view.setUint32(8, headerLength, true);
+  view.setBigUint64(12, BigInt(header.originalSize), true);
+  view.setUint32(20, header.crc32 >>> 0, true);
+
+  let offset = FIXED_HEADER_SIZE;
+  view.setUint16(offset, nameBytes.length, true);
+  archive.set(nameBytes, offset + 2);
+  offset += 2 + nameBytes.length;
+  view.setUint16(offset, paramBytes.length, true);
+  archive.set(paramBytes, offset + 2);
+
+  return archive;
+}
+
+export function writeArchive(header: Omit<ArchiveHeader, 'formatVersion' | 'payloadOffset'>, payload: Uint8Array): Uint8Array {
+  const headerBytes = writeArchiveHeader(header);
+  const archive = new Uint8Array(headerBytes.length + payload.length);
+  archive.set(headerBytes, 0);
+  archive.set(payload, headerBytes.length);
+  return archive;
+}
+
+export function writeBlockFrame(originalLength: number, payload: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(BLOCK_FRAME_HEADER_SIZE + payload.length);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, originalLength, true);
+  view.setUint32(4, payload.length, true);
+  frame.set(payload, BLOCK_FRAME_HEADER_SIZE);
+  return frame;
+}
+
+export function readBlockFrameHeader(data: Uint8Array): { originalLength: number; compressedLength: number } {
+  if (data.length < BLOCK_FRAME_HEADER_SIZE) {
+    throw new Error('Archive block is truncated');
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return { originalLength: view.getUint32(0, true), compressedLength: view.getUint32(4, true) };
+}
+
+/** Splits an in-memory block mode payload into its frames */
+export function* readBlockFrames(payload: Uint8Array): Generator<{ originalLength: number; payload: Uint8Array }> {
+  let offset = 0;
+  while (offset < payload.length) {
+    const { originalLength, compressedLength } = readBlockFrameHeader(payload.subarray(offset));
+    const start = offset + BLOCK_FRAME_HEADER_SIZE;
+    if (start + compressedLength > payload.length) {
+      throw new Error('Archive block is truncated');
+    }
+    yield { originalLength, payload: payload.subarray(start, start + compressedLength) };
+    offset = start + compressedLength;
+  }
+}
+
+export function readArchiveHeader(data: Uint8Array): ArchiveHeader {
+  if (!isArchive(data)) {
+    throw new Error('Not a compression portal archive (bad magic number)');
+  }
+  if (data.length < FIXED_HEADER_SIZE + 4) {
+    throw new Error('Archive header is truncated');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const formatVersion = view.getUint8(4);
+  if (formatVersion > ARCHIVE_VERSION) {
+    throw new Error(`Archive format version ${formatVersion} is newer than this app supports (${ARCHIVE_VERSION})`);
+  }
+
+  const algorithm = codecForArchiveId(view.getUint8(5)).id;
+  const flags = view.getUint16(6, true);
+  if (flags & ~KNOWN_FLAGS) {
+    throw new Error(`Archive uses unsupported flags 0x${flags.toString(16)}`);
+  }
+  const payloadOffset = view.getUint32(8, true);
+  const originalSize = Number(view.getBigUint64(12, true));
+  const checksum = view.getUint32(20, true);
+
+  const decoder = new TextDecoder();
+  let offset = FIXED_HEADER_SIZE;
+  const nameLength = view.getUint16(offset, true);
+  const fileName = decoder.decode(data.subarray(offset + 2, offset + 2 + nameLength));
+  offset += 2 + nameLength;
+  const paramLength = view.getUint16(offset, true);
+  const parameters: AlgorithmParameters = JSON.parse(decoder.decode(data.subarray(offset + 2, offset + 2 + paramLength)));
+  offset += 2 + paramLength;
+
+  if (payloadOffset < offset || payloadOffset > data.length) {
+    throw new Error('Archive header is corrupt');
+  }
+
+  return {
+    formatVersion,
+    algorithm,
+    blocked: (flags & FLAG_BLOCKS) !== 0,
+    fileName,
+    originalSize,
+    crc32: checksum,
+    parameters,
+    payloadOffset
+  };
+}
+
+export function readArchive(data: Uint8Array): { header: ArchiveHeader; payload: Uint8Array } {
+  const header = readArchiveHeader(data);
+  return { header, payload: data.subarray(header.payloadOffset) };
+}
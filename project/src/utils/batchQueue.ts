@@ -0,0 +1,129 @@
+import { AlgorithmParameters, BatchJob, BatchQueueOptions, CompressionAlgorithm, FileInfo, ProcessingProgress } from '../types';
+import { DEFAULT_BLOCK_SIZE } from './streamingCompression';
+import {
+  CompressionJobOutput,
+  JobCancelledError,
+  WorkerJob,
+  startBlockCompressionJob,
+  startCompressionJob
+} from './compressionWorkerClient';
+
+export const DEFAULT_BATCH_OPTIONS: BatchQueueOptions = { concurrency: 2, maxRetries: 1 };
+
+const queuedProgress: ProcessingProgress = { stage: 'Queued', progress: 0, message: 'Waiting for a free worker...' };
+
+/**
+ * Compresses many files with a bounded number of workers. Every change
+ * publishes a fresh array of job snapshots so React state can hold it as is.
+ */
+export class CompressionQueue {
+  private jobs: BatchJob[] = [];
+  private readonly running = new Map<number, WorkerJob<CompressionJobOutput>>();
+  private readonly onChange: (jobs: BatchJob[]) => void;
+  private readonly onJobDone?: (job: BatchJob) => void;
+  private options: BatchQueueOptions;
+  private nextId = 1;
+
+  /** `onJobDone` is called once for each job that finishes successfully, e.g. to record it */
+  constructor(
+    onChange: (jobs: BatchJob[]) => void,
+    options: BatchQueueOptions = DEFAULT_BATCH_OPTIONS,
+    onJobDone?: (job: BatchJob) => void
+  ) {
+    this.onChange = onChange;
+    this.options = options;
+    this.onJobDone = onJobDone;
+  }
+
+  add(files: FileInfo[], algorithm: CompressionAlgorithm, options: AlgorithmParameters) {
+    for (const file of files) {
+      this.jobs.push({ id: this.nextId++, file, algorithm, options, status: 'queued', progress: queuedProgress, attempts: 0 });
+    }
+    this.publish();
+    this.pump();
+  }
+
+  setOptions(options: BatchQueueOptions) {
+    this.options = options;
+    this.pump();
+  }
+
+  /** Puts a failed or cancelled job back in the queue with a fresh set of retries */
+  retry(id: number) {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+    this.update(id, { status: 'queued', progress: queuedProgress, attempts: 0, error: undefined });
+    this.pump();
+  }
+
+  retryFailed() {
+    for (const job of this.jobs) {
+      if (job.status === 'failed') this.retry(job.id);
+    }
+  }
+
+  cancel(id: number) {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+    this.running.get(id)?.cancel();
+    this.running.delete(id);
+    this.update(id, { status: 'cancelled', progress: { stage: 'Cancelled', progress: 0, message: 'Cancelled' } });
+    this.pump();
+  }
+
+  cancelAll() {
+    for (const job of this.jobs) this.cancel(job.id);
+  }
+
+  private pump() {
+    while (this.running.size < this.options.concurrency) {
+      const next = this.jobs.find(job => job.status === 'queued');
+      if (!next) return;
+      this.start(next);
+    }
+  }
+
+  private async start(job: BatchJob) {
+    const { id, file, algorithm, options } = job;
+    const onProgress = (progress: ProcessingProgress) => this.update(id, { progress });
+    const workerJob = file.data
+      ? startCompressionJob(algorithm, options, file.data, file.name, onProgress)
+      : startBlockCompressionJob(algorithm, options, file.file, file.name, DEFAULT_BLOCK_SIZE, onProgress);
+    this.running.set(id, workerJob);
+    this.update(id, { status: 'running', attempts: job.attempts + 1, error: undefined });
+
+    try {
+      const { result, archive, archiveName } = await workerJob.promise;
+      this.update(id, {
+        status: 'done',
+        progress: { stage: 'Complete', progress: 100, message: 'Done' },
+        // Only the archive Blob is kept, so a long batch does not pin every buffer in memory
+        result: { ...result, compressedData: undefined, originalData: undefined },
+        archive,
+        archiveName
+      });
+      this.onJobDone?.(this.jobs.find(candidate => candidate.id === id)!);
+    } catch (error) {
+      if (error instanceof JobCancelledError) return;
+      const current = this.jobs.find(candidate => candidate.id === id)!;
+      const message = error instanceof Error ? error.message : String(error);
+      if (current.attempts <= this.options.maxRetries) {
+        this.update(id, { status: 'queued', progress: { ...queuedProgress, message: `Retrying after: ${message}` }, error: message });
+      } else {
+        this.update(id, { status: 'failed', progress: { stage: 'Error', progress: 0, message }, error: message });
+      }
+    } finally {
+      if (this.running.get(id) === workerJob) this.running.delete(id);
+    }
+    this.pump();
+  }
+
+  private update(id: number, changes: Partial<BatchJob>) {
+    this.jobs = this.jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+    this.publish();
+  }
+
+  private publish() {
+    this.onChange(this.jobs);
+  }
+}
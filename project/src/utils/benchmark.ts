@@ -0,0 +1,136 @@
+import { BenchmarkConfig, BenchmarkRow, ProcessingProgress } from '../types';
+import { decompressPayload } from './compressionAlgorithms';
+import { isCodecAvailable, listEncoders, resolveCodecOptions } from './codecRegistry';
+import { BENCHMARK_CORPORA, generateCorpus } from './benchmarkCorpora';
+import { bytesEqual } from './bytes';
+import { compressionRatio } from './compressionRatio';
+
+export const DEFAULT_BENCHMARK_CONFIG: BenchmarkConfig = {
+  corpora: BENCHMARK_CORPORA.map(corpus => corpus.id),
+  corpusSize: 256 * 1024,
+  iterations: 3,
+  seed: 1
+};
+
+// The middle sample, or the mean of the middle two; unlike the mean it ignores a first run slowed by JIT warm-up
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Runs every available codec over each generated corpus `iterations` times
+ * with its default settings, timing compression and decompression separately
+ * and checking every round trip. A codec that throws is reported in its row
+ * rather than ending the run.
+ */
+export async function runBenchmark(
+  config: BenchmarkConfig,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<BenchmarkRow[]> {
+  const codecs = listEncoders().filter(isCodecAvailable);
+  const corpora = BENCHMARK_CORPORA.filter(corpus => config.corpora.includes(corpus.id));
+  const totalRuns = corpora.length * codecs.length * config.iterations;
+  const rows: BenchmarkRow[] = [];
+  let runsDone = 0;
+
+  for (const corpus of corpora) {
+    const data = generateCorpus(corpus.id, config.corpusSize, config.seed);
+
+    for (const codec of codecs) {
+      const { id: algorithm, info: { name } } = codec;
+      const options = resolveCodecOptions(codec);
+      const compressTimes: number[] = [];
+      const decompressTimes: number[] = [];
+      let compressedSize = 0;
+      let roundTrip = true;
+
+      try {
+        for (let iteration = 0; iteration < config.iterations; iteration++) {
+          onProgress?.({
+            stage: corpus.name,
+            progress: (runsDone / totalRuns) * 100,
+            message: `${name} on ${corpus.name}, run ${iteration + 1} of ${config.iterations}`
+          });
+
+          // The codec alone, without the entropy pass compressData adds for the results screen
+          let startTime = performance.now();
+          const result = await codec.compress(data, undefined, options);
+          compressTimes.push(performance.now() - startTime);
+          compressedSize = result.compressedSize;
+
+          startTime = performance.now();
+          const restored = await decompressPayload(algorithm, result.compressedData!);
+          decompressTimes.push(performance.now() - startTime);
+          if (!bytesEqual(restored, data)) roundTrip = false;
+          runsDone++;
+        }
+      } catch (error) {
+        rows.push({
+          corpus: corpus.id,
+          algorithm,
+          name,
+          originalSize: data.length,
+          compressedSize: 0,
+          compressionRatio: 0,
+          compressMs: 0,
+          decompressMs: 0,
+          roundTrip: false,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        // Skip the iterations it will not run so the bar still ends at 100%
+        runsDone = rows.length * config.iterations;
+        continue;
+      }
+
+      rows.push({
+        corpus: corpus.id,
+        algorithm,
+        name,
+        originalSize: data.length,
+        compressedSize,
+        compressionRatio: compressionRatio(data.length, compressedSize),
+        compressMs: median(compressTimes),
+        decompressMs: median(decompressTimes),
+        roundTrip
+      });
+    }
+  }
+
+  onProgress?.({ stage: 'Complete', progress: 100, message: `Benchmarked ${codecs.length} algorithms on ${corpora.length} corpora` });
+  return rows;
+}
+
+// Quotes a field only when it needs it, doubling any quotes inside
+function csvField(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function benchmarkToCsv(rows: BenchmarkRow[], config: BenchmarkConfig): string {
+  const header = [
+    'corpus', 'algorithm', 'seed', 'iterations', 'original_bytes', 'compressed_bytes', 'ratio_percent',
+    'compress_ms_median', 'decompress_ms_median', 'compress_mb_per_s', 'decompress_mb_per_s', 'round_trip', 'error'
+  ];
+  const throughput = (bytes: number, ms: number) => ms > 0 ? (bytes / (1024 * 1024) / (ms / 1000)).toFixed(2) : '';
+
+  const lines = rows.map(row => [
+    row.corpus,
+    row.algorithm,
+    config.seed,
+    config.iterations,
+    row.originalSize,
+    row.compressedSize,
+    row.compressionRatio.toFixed(2),
+    row.compressMs.toFixed(3),
+    row.decompressMs.toFixed(3),
+    throughput(row.originalSize, row.compressMs),
+    throughput(row.originalSize, row.decompressMs),
+    row.roundTrip,
+    row.error ?? ''
+  ].map(csvField).join(','));
+
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
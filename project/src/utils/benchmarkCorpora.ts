@@ -0,0 +1,218 @@
+import { BenchmarkCorpusId, BenchmarkCorpusInfo } from '../types';
+
+export const BENCHMARK_CORPORA: BenchmarkCorpusInfo[] = [
+  { id: 'random', name: 'Random bytes', description: 'Uniform noise, the incompressible worst case' },
+  { id: 'english', name: 'English text', description: 'Sentences from a weighted vocabulary of common words' },
+  { id: 'runs', name: 'Long runs', description: 'Runs of a few byte values, like a simple bitmap' },
+  { id: 'csv', name: 'CSV', description: 'Order records with repeating columns' },
+  { id: 'json', name: 'JSON', description: 'Pretty-printed user records' },
+  { id: 'source', name: 'Source code', description: 'TypeScript functions and interfaces' }
+];
+
+type Random = () => number;
+
+// mulberry32: tiny, fast and good enough to make test data; the same seed always gives the same stream
+function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomInt(random: Random, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(random: Random, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// Earlier items are picked far more often, roughly following Zipf's law as real vocabularies do
+function pickWeighted<T>(random: Random, items: T[]): T {
+  return items[Math.floor(Math.pow(items.length, random())) - 1];
+}
+
+const WORDS = [
+  'the', 'of', 'and', 'to', 'a', 'in', 'is', 'it', 'that', 'was', 'for', 'on', 'are', 'with', 'as', 'he', 'they',
+  'be', 'at', 'one', 'have', 'this', 'from', 'by', 'but', 'not', 'what', 'all', 'were', 'when', 'we', 'there',
+  'can', 'an', 'your', 'which', 'their', 'said', 'if', 'will', 'each', 'about', 'how', 'up', 'out', 'them',
+  'then', 'she', 'many', 'some', 'so', 'these', 'would', 'other', 'into', 'has', 'more', 'her', 'two', 'like',
+  'time', 'could', 'people', 'water', 'than', 'first', 'been', 'long', 'little', 'very', 'after', 'words',
+  'called', 'just', 'where', 'most', 'know', 'through', 'back', 'much', 'before', 'good', 'new', 'write',
+  'our', 'used', 'me', 'man', 'too', 'any', 'day', 'same', 'right', 'look', 'think', 'also', 'around',
+  'another', 'came', 'come', 'work', 'three', 'word', 'must', 'because', 'does', 'part', 'even', 'place',
+  'well', 'such', 'here', 'take', 'why', 'things', 'help', 'put', 'years', 'different', 'away', 'again',
+  'off', 'went', 'old', 'number', 'great', 'tell', 'men', 'say', 'small', 'every', 'found', 'still', 'between',
+  'name', 'should', 'home', 'big', 'give', 'air', 'line', 'set', 'own', 'under', 'read', 'last', 'never', 'us',
+  'left', 'end', 'along', 'while', 'might', 'next', 'sound', 'below', 'saw', 'something', 'thought', 'both',
+  'few', 'those', 'always', 'show', 'large', 'often', 'together', 'asked', 'house', 'world', 'going', 'want',
+  'school', 'important', 'until', 'form', 'food', 'keep', 'children', 'feet', 'land', 'side', 'without',
+  'boy', 'once', 'animals', 'life', 'enough', 'took', 'sometimes', 'four', 'head', 'above', 'kind', 'began',
+  'almost', 'live', 'page', 'got', 'earth', 'need', 'far', 'hand', 'high', 'year', 'mother', 'light', 'country'
+];
+
+const FIRST_NAMES = ['James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David', 'Elizabeth', 'William', 'Barbara', 'Richard', 'Susan', 'Joseph', 'Jessica', 'Thomas', 'Sarah', 'Charles', 'Karen'];
+const LAST_NAMES = ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez', 'Martinez', 'Hernandez', 'Lopez', 'Gonzalez', 'Wilson', 'Anderson', 'Thomas', 'Taylor', 'Moore', 'Jackson', 'Martin'];
+const CITIES = ['London', 'Paris', 'Berlin', 'Madrid', 'Rome', 'Amsterdam', 'Vienna', 'Prague', 'Lisbon', 'Dublin', 'Oslo', 'Warsaw'];
+const PRODUCTS = ['Widget', 'Gadget', 'Sprocket', 'Gizmo', 'Doohickey', 'Thingamajig', 'Whatsit', 'Contraption'];
+const STATUSES = ['pending', 'shipped', 'delivered', 'cancelled', 'returned'];
+const TAGS = ['admin', 'beta', 'premium', 'trial', 'verified', 'staff', 'partner'];
+
+const VERBS = ['get', 'set', 'update', 'create', 'remove', 'find', 'parse', 'build', 'load', 'validate'];
+const NOUNS = ['User', 'Order', 'Item', 'Account', 'Session', 'Config', 'Record', 'Message', 'Report', 'Token'];
+const FIELDS = ['id', 'name', 'count', 'total', 'size', 'index', 'value', 'status', 'createdAt', 'updatedAt'];
+const TYPES = ['number', 'string', 'boolean', 'Date', 'number[]', 'string[]'];
+
+function pad(value: number, width = 2): string {
+  return String(value).padStart(width, '0');
+}
+
+function randomDate(random: Random): string {
+  return `2023-${pad(randomInt(random, 1, 12))}-${pad(randomInt(random, 1, 28))}`;
+}
+
+function sentence(random: Random): string {
+  const length = randomInt(random, 5, 18);
+  const words: string[] = [];
+  for (let i = 0; i < length; i++) {
+    let word = pickWeighted(random, WORDS);
+    if (i === 0) word = word[0].toUpperCase() + word.slice(1);
+    if (i > 1 && i < length - 1 && random() < 0.08) word += ',';
+    words.push(word);
+  }
+  return words.join(' ') + (random() < 0.1 ? '?' : '.');
+}
+
+function paragraph(random: Random): string {
+  const sentences: string[] = [];
+  const count = randomInt(random, 3, 7);
+  for (let i = 0; i < count; i++) sentences.push(sentence(random));
+  return sentences.join(' ') + '\n\n';
+}
+
+function csvRow(random: Random, id: number): string {
+  const quantity = randomInt(random, 1, 20);
+  return [
+    id,
+    randomDate(random),
+    `${pick(random, FIRST_NAMES)} ${pick(random, LAST_NAMES)}`,
+    pick(random, CITIES),
+    pick(random, PRODUCTS),
+    quantity,
+    (randomInt(random, 199, 9999) / 100).toFixed(2),
+    pick(random, STATUSES)
+  ].join(',') + '\n';
+}
+
+function jsonRecord(random: Random, id: number): string {
+  const first = pick(random, FIRST_NAMES);
+  const last = pick(random, LAST_NAMES);
+  const tags = Array.from({ length: randomInt(random, 0, 3) }, () => `"${pick(random, TAGS)}"`);
+  return [
+    '  {',
+    `    "id": ${id},`,
+    `    "name": "${first} ${last}",`,
+    `    "email": "${first.toLowerCase()}.${last.toLowerCase()}@example.com",`,
+    `    "active": ${random() < 0.8},`,
+    `    "score": ${(random() * 100).toFixed(1)},`,
+    `    "tags": [${tags.join(', ')}],`,
+    '    "address": {',
+    `      "city": "${pick(random, CITIES)}",`,
+    `      "postcode": "${randomInt(random, 10000, 99999)}"`,
+    '    },',
+    `    "createdAt": "${randomDate(random)}T${pad(randomInt(random, 0, 23))}:${pad(randomInt(random, 0, 59))}:00Z"`,
+    '  },\n'
+  ].join('\n');
+}
+
+function sourceBlock(random: Random): string {
+  const noun = pick(random, NOUNS);
+  const field = pick(random, FIELDS);
+  const argument = noun.toLowerCase() + 's';
+
+  switch (randomInt(random, 0, 2)) {
+    case 0:
+      return [
+        `export function ${pick(random, VERBS)}${noun}Total(${argument}: ${noun}[]): number {`,
+        '  let result = 0;',
+        `  for (let i = 0; i < ${argument}.length; i++) {`,
+        `    if (${argument}[i].${field} > ${randomInt(random, 0, 100)}) {`,
+        `      result += ${argument}[i].${field};`,
+        '    }',
+        '  }',
+        '  return result;',
+        '}\n\n'
+      ].join('\n');
+    case 1: {
+      const fields = Array.from({ length: randomInt(random, 2, 6) }, () => `  ${pick(random, FIELDS)}: ${pick(random, TYPES)};`);
+      return [`export interface ${noun}${pick(random, ['Options', 'State', 'Props', 'Data'])} {`, ...fields, '}\n\n'].join('\n');
+    }
+    default:
+      return [
+        `export async function ${pick(random, VERBS)}${noun}(id: string): Promise<${noun} | null> {`,
+        `  const response = await fetch(\`/api/${noun.toLowerCase()}s/\${id}\`);`,
+        '  if (!response.ok) {',
+        `    throw new Error(\`Failed to load ${noun.toLowerCase()} \${id}: \${response.status}\`);`,
+        '  }',
+        `  return (await response.json()) as ${noun};`,
+        '}\n\n'
+      ].join('\n');
+  }
+}
+
+// Repeats `next` until the text reaches `size`, then cuts it to exactly that; all corpora are ASCII
+function fillText(size: number, next: (index: number) => string, header = ''): Uint8Array {
+  const parts = [header];
+  let length = header.length;
+  for (let index = 0; length < size; index++) {
+    const part = next(index);
+    parts.push(part);
+    length += part.length;
+  }
+  return new TextEncoder().encode(parts.join('')).subarray(0, size);
+}
+
+function generateRuns(random: Random, size: number): Uint8Array {
+  const palette = Array.from({ length: 6 }, () => randomInt(random, 0, 255));
+  const data = new Uint8Array(size);
+  let position = 0;
+  while (position < size) {
+    // Mostly short runs with a long tail, mean around 40
+    const length = 1 + Math.floor(-Math.log(1 - random()) * 40);
+    data.fill(pick(random, palette), position, Math.min(position + length, size));
+    position += length;
+  }
+  return data;
+}
+
+/**
+ * Generates `size` bytes of the given corpus. Each corpus draws from its own
+ * stream derived from the seed, so adding or removing corpora from a run
+ * never changes the others.
+ */
+export function generateCorpus(id: BenchmarkCorpusId, size: number, seed: number): Uint8Array {
+  const index = BENCHMARK_CORPORA.findIndex(corpus => corpus.id === id);
+  if (index < 0) throw new Error(`Unknown benchmark corpus: ${id}`);
+  const random = createRandom(seed + Math.imul(index + 1, 0x9e3779b9));
+
+  switch (id) {
+    case 'random': {
+      const data = new Uint8Array(size);
+      for (let i = 0; i < size; i++) data[i] = Math.floor(random() * 256);
+      return data;
+    }
+    case 'english':
+      return fillText(size, () => paragraph(random));
+    case 'runs':
+      return generateRuns(random, size);
+    case 'csv':
+      return fillText(size, row => csvRow(random, row + 1), 'id,date,customer,city,product,quantity,unit_price,status\n');
+    case 'json':
+      return fillText(size, row => jsonRecord(random, row + 1), '[\n');
+    case 'source':
+      return fillText(size, () => sourceBlock(random));
+  }
+}
@@ -0,0 +1,257 @@
+// Growable byte buffer with LEB128 varints for codec headers
+export class ByteWriter {
+  private buffer: Uint8Array;
+  private length = 0;
+
+  constructor(initialCapacity = 1024) {
+    this.buffer = new Uint8Array(Math.max(16, initialCapacity));
+  }
+
+  private ensureCapacity(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + extra) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  writeUint8(value: number) {
+    this.ensureCapacity(1);
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  writeVarint(value: number) {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.writeUint8((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.writeUint8(remaining);
+  }
+
+  writeBytes(bytes: Uint8Array) {
+    this.ensureCapacity(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  get size(): number {
+    return this.length;
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+export class ByteReader {
+  private readonly data: Uint8Array;
+  offset: number;
+
+  constructor(data: Uint8Array, offset = 0) {
+    this.data = data;
+    this.offset = offset;
+  }
+
+  readUint8(): number {
+    if (this.offset >= this.data.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    return this.data[this.offset++];
+  }
+
+  readVarint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.readUint8();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  }
+
+  readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  remaining(): Uint8Array {
+    return this.data.subarray(this.offset);
+  }
+}
+
+// MSB-first bit packing, the natural order for prefix codes read left to right
+export class BitWriter {
+  private readonly bytes = new ByteWriter();
+  private current = 0;
+  private bitCount = 0;
+
+  writeBit(bit: number) {
+    this.current = (this.current << 1) | (bit & 1);
+    this.bitCount++;
+    if (this.bitCount === 8) {
+      this.bytes.writeUint8(this.current);
+      this.current = 0;
+      this.bitCount = 0;
+    }
+  }
+
+  /** Writes the low `count` bits of `value`, most significant first (count <= 32) */
+  writeBits(value: number, count: number) {
+    for (let i = count - 1; i >= 0; i--) {
+      this.writeBit((value >>> i) & 1);
+    }
+  }
+
+  toUint8Array(): Uint8Array {
+    if (this.bitCount > 0) {
+      this.bytes.writeUint8(this.current << (8 - this.bitCount));
+      this.current = 0;
+      this.bitCount = 0;
+    }
+    return this.bytes.toUint8Array();
+  }
+}
+
+export class BitReader {
+  private readonly data: Uint8Array;
+  private offset: number;
+  private bitPosition = 0;
+
+  constructor(data: Uint8Array, offset = 0) {
+    this.data = data;
+    this.offset = offset;
+  }
+
+  readBit(): number {
+    if (this.offset >= this.data.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    const bit = (this.data[this.offset] >>> (7 - this.bitPosition)) & 1;
+    this.bitPosition++;
+    if (this.bitPosition === 8) {
+      this.bitPosition = 0;
+      this.offset++;
+    }
+    return bit;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value >>> 0;
+  }
+}
+
+// LSB-first bit packing as used by DEFLATE (RFC 1951, section 3.1.1)
+export class LsbBitWriter {
+  private readonly bytes: ByteWriter;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(initialCapacity = 1024) {
+    this.bytes = new ByteWriter(initialCapacity);
+  }
+
+  /** Writes the low `count` bits of `value`, least significant first (count <= 16) */
+  writeBits(value: number, count: number) {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.bytes.writeUint8(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  alignToByte() {
+    if (this.bitCount > 0) {
+      this.bytes.writeUint8(this.bitBuffer & 0xff);
+      this.bitBuffer = 0;
+      this.bitCount = 0;
+    }
+  }
+
+  /** Appends whole bytes; the writer must be byte aligned */
+  writeBytes(bytes: Uint8Array) {
+    this.bytes.writeBytes(bytes);
+  }
+
+  toUint8Array(): Uint8Array {
+    this.alignToByte();
+    return this.bytes.toUint8Array();
+  }
+}
+
+export class LsbBitReader {
+  private readonly data: Uint8Array;
+  private position: number;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(data: Uint8Array, offset = 0) {
+    this.data = data;
+    this.position = offset;
+  }
+
+  // Reading past the end pads with zeros so a decoder may peek a full table
+  // width near the end; consuming any of that padding is an error.
+  private refill(count: number) {
+    while (this.bitCount < count) {
+      const byte = this.position < this.data.length ? this.data[this.position] : 0;
+      this.position++;
+      this.bitBuffer |= byte << this.bitCount;
+      this.bitCount += 8;
+    }
+  }
+
+  peekBits(count: number): number {
+    this.refill(count);
+    return this.bitBuffer & ((1 << count) - 1);
+  }
+
+  skipBits(count: number) {
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    if (this.position > this.data.length && (this.position - this.data.length) * 8 > this.bitCount) {
+      throw new Error('Unexpected end of compressed data');
+    }
+  }
+
+  readBits(count: number): number {
+    if (count === 0) return 0;
+    const value = this.peekBits(count);
+    this.skipBits(count);
+    return value;
+  }
+
+  alignToByte() {
+    this.skipBits(this.bitCount % 8);
+  }
+
+  /** Offset of the next unread byte; only meaningful when byte aligned */
+  get byteOffset(): number {
+    return this.position - (this.bitCount >>> 3);
+  }
+
+  /** Reads whole bytes after aligning to a byte boundary */
+  readBytes(length: number): Uint8Array {
+    this.alignToByte();
+    const start = this.byteOffset;
+    if (start + length > this.data.length) {
+      throw new Error('Unexpected end of compressed data');
+    }
+    this.position = start + length;
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    return this.data.subarray(start, start + length);
+  }
+}
@@ -0,0 +1,246 @@
+import { ByteReader, ByteWriter } from './bitStream';
+import { SymbolDecoder, SymbolEncoder } from './rangeCoder';
+
+// bzip2-style block-sorting compressor: each block goes through the
+// Burrows-Wheeler Transform, Move-to-Front, zero-run RLE and an adaptive
+// range coder.
+//
+// Payload: varint original length, varint block size, then per block:
+//   varint block length, varint primary index, varint coded length, coded symbols
+// Coded symbols are RUNA/RUNB digits for runs of MTF zeros and MTF value + 1
+// for everything else, as in bzip2.
+export const BWT_MIN_BLOCK_SIZE = 100 * 1000;
+export const BWT_MAX_BLOCK_SIZE = 900 * 1000;
+export const BWT_DEFAULT_BLOCK_SIZE = BWT_MAX_BLOCK_SIZE;
+
+const RUN_A = 0;
+const RUN_B = 1;
+const SYMBOL_BITS = 9;
+
+/**
+ * Sorts the cyclic rotations of `block` by prefix doubling: after round k the
+ * rotations are ordered by their first 2^k bytes, and each round is a single
+ * counting sort on the rank of the second half.
+ */
+export function sortRotations(block: Uint8Array): Int32Array {
+  const n = block.length;
+  const order = new Int32Array(n);
+  let rank = new Int32Array(n);
+  if (n === 0) return order;
+
+  const counts = new Int32Array(Math.max(256, n));
+  for (let i = 0; i < n; i++) counts[block[i]]++;
+  for (let i = 1; i < 256; i++) counts[i] += counts[i - 1];
+  for (let i = n - 1; i >= 0; i--) order[--counts[block[i]]] = i;
+
+  let classes = 1;
+  rank[order[0]] = 0;
+  for (let i = 1; i < n; i++) {
+    if (block[order[i]] !== block[order[i - 1]]) classes++;
+    rank[order[i]] = classes - 1;
+  }
+
+  const shifted = new Int32Array(n);
+  let nextRank = new Int32Array(n);
+  for (let length = 1; length < n && classes < n; length <<= 1) {
+    // Rotations ordered by their second half are the current order shifted back
+    for (let i = 0; i < n; i++) {
+      shifted[i] = order[i] - length < 0 ? order[i] - length + n : order[i] - length;
+    }
+
+    counts.fill(0, 0, classes);
+    for (let i = 0; i < n; i++) counts[rank[shifted[i]]]++;
+    for (let i = 1; i < classes; i++) counts[i] += counts[i - 1];
+    for (let i = n - 1; i >= 0; i--) order[--counts[rank[shifted[i]]]] = shifted[i];
+
+    nextRank[order[0]] = 0;
+    classes = 1;
+    for (let i = 1; i < n; i++) {
+      const current = order[i];
+      const previous = order[i - 1];
+      const currentSecond = current + length < n ? current + length : current + length - n;
+      const previousSecond = previous + length < n ? previous + length : previous + length - n;
+      if (rank[current] !== rank[previous] || rank[currentSecond] !== rank[previousSecond]) classes++;
+      nextRank[current] = classes - 1;
+    }
+    [rank, nextRank] = [nextRank, rank];
+  }
+
+  return order;
+}
+
+/** Returns the last column of the sorted rotation matrix and the row holding the original block */
+export function burrowsWheelerTransform(block: Uint8Array): { transformed: Uint8Array; primaryIndex: number } {
+  const order = sortRotations(block);
+  const transformed = new Uint8Array(block.length);
+  let primaryIndex = 0;
+  for (let i = 0; i < order.length; i++) {
+    if (order[i] === 0) {
+      primaryIndex = i;
+      transformed[i] = block[block.length - 1];
+    } else {
+      transformed[i] = block[order[i] - 1];
+    }
+  }
+  return { transformed, primaryIndex };
+}
+
+export function inverseBurrowsWheelerTransform(transformed: Uint8Array, primaryIndex: number): Uint8Array {
+  const n = transformed.length;
+  if (n === 0) return new Uint8Array(0);
+  if (primaryIndex >= n) throw new Error('Invalid BWT primary index');
+
+  // next[i] is the row that follows row i in the original text (the LF mapping inverted)
+  const starts = new Int32Array(256);
+  for (let i = 0; i < n; i++) starts[transformed[i]]++;
+  for (let symbol = 0, sum = 0; symbol < 256; symbol++) {
+    const count = starts[symbol];
+    starts[symbol] = sum;
+    sum += count;
+  }
+  const next = new Int32Array(n);
+  for (let i = 0; i < n; i++) next[starts[transformed[i]]++] = i;
+
+  const output = new Uint8Array(n);
+  let row = next[primaryIndex];
+  for (let i = 0; i < n; i++) {
+    output[i] = transformed[row];
+    row = next[row];
+  }
+  return output;
+}
+
+function moveToFront(data: Uint8Array): Uint8Array {
+  const table = Uint8Array.from({ length: 256 }, (_, i) => i);
+  const output = new Uint8Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i];
+    let index = 0;
+    while (table[index] !== byte) index++;
+    output[i] = index;
+    table.copyWithin(1, 0, index);
+    table[0] = byte;
+  }
+  return output;
+}
+
+function encodeZeroRun(encoder: SymbolEncoder, run: number) {
+  // Bijective base 2, least significant digit first: RUN_A = 1, RUN_B = 2
+  while (run > 0) {
+    if (run & 1) {
+      encoder.encode(RUN_A);
+      run = (run - 1) >>> 1;
+    } else {
+      encoder.encode(RUN_B);
+      run = (run - 2) >>> 1;
+    }
+  }
+}
+
+function encodeBlock(output: ByteWriter, block: Uint8Array) {
+  const { transformed, primaryIndex } = burrowsWheelerTransform(block);
+  const ranks = moveToFront(transformed);
+
+  const coded = new ByteWriter(block.length >>> 2);
+  const encoder = new SymbolEncoder(coded, SYMBOL_BITS);
+  let zeroRun = 0;
+  for (let i = 0; i < ranks.length; i++) {
+    if (ranks[i] === 0) {
+      zeroRun++;
+      continue;
+    }
+    encodeZeroRun(encoder, zeroRun);
+    zeroRun = 0;
+    encoder.encode(ranks[i] + 1);
+  }
+  encodeZeroRun(encoder, zeroRun);
+  encoder.finish();
+
+  const codedBytes = coded.toUint8Array();
+  output.writeVarint(block.length);
+  output.writeVarint(primaryIndex);
+  output.writeVarint(codedBytes.length);
+  output.writeBytes(codedBytes);
+}
+
+function decodeBlock(reader: ByteReader): Uint8Array {
+  const blockLength = reader.readVarint();
+  const primaryIndex = reader.readVarint();
+  const codedLength = reader.readVarint();
+  const decoder = new SymbolDecoder(new ByteReader(reader.readBytes(codedLength)), SYMBOL_BITS);
+
+  const table = Uint8Array.from({ length: 256 }, (_, i) => i);
+  const transformed = new Uint8Array(blockLength);
+  let position = 0;
+  let run = 0;
+  let weight = 1;
+
+  const flushRun = () => {
+    if (position + run > blockLength) throw new Error('BWT block decodes past its length');
+    transformed.fill(table[0], position, position + run);
+    position += run;
+    run = 0;
+    weight = 1;
+  };
+
+  while (position + run < blockLength) {
+    const symbol = decoder.decode();
+    if (symbol === RUN_A || symbol === RUN_B) {
+      run += (symbol === RUN_A ? 1 : 2) * weight;
+      weight *= 2;
+      continue;
+    }
+    flushRun();
+
+    const index = symbol - 1;
+    if (index > 255) throw new Error(`Invalid BWT symbol ${symbol}`);
+    const byte = table[index];
+    table.copyWithin(1, 0, index);
+    table[0] = byte;
+    if (position >= blockLength) throw new Error('BWT block decodes past its length');
+    transformed[position++] = byte;
+  }
+  flushRun();
+
+  return inverseBurrowsWheelerTransform(transformed, primaryIndex);
+}
+
+export interface BwtOptions {
+  blockSize?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+export function bwtEncode(data: Uint8Array, options: BwtOptions = {}): Uint8Array {
+  const blockSize = options.blockSize ?? BWT_DEFAULT_BLOCK_SIZE;
+  if (blockSize < BWT_MIN_BLOCK_SIZE || blockSize > BWT_MAX_BLOCK_SIZE) {
+    throw new Error(`BWT block size must be between ${BWT_MIN_BLOCK_SIZE} and ${BWT_MAX_BLOCK_SIZE} bytes`);
+  }
+
+  const output = new ByteWriter(Math.max(64, data.length >>> 2));
+  output.writeVarint(data.length);
+  output.writeVarint(blockSize);
+  for (let start = 0; start < data.length; start += blockSize) {
+    encodeBlock(output, data.subarray(start, start + blockSize));
+    options.onProgress?.(Math.min(1, (start + blockSize) / data.length));
+  }
+  return output.toUint8Array();
+}
+
+export function bwtDecode(compressed: Uint8Array): Uint8Array {
+  const reader = new ByteReader(compressed);
+  const originalLength = reader.readVarint();
+  const blockSize = reader.readVarint();
+  if (blockSize === 0) throw new Error('Invalid BWT block size');
+
+  const output = new Uint8Array(originalLength);
+  let position = 0;
+  while (position < originalLength) {
+    const block = decodeBlock(reader);
+    if (block.length === 0 || block.length > blockSize || position + block.length > originalLength) {
+      throw new Error('BWT block has an unexpected length');
+    }
+    output.set(block, position);
+    position += block.length;
+  }
+  return output;
+}
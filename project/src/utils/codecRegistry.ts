@@ -0,0 +1,93 @@
+import { AlgorithmParameters, Codec, CompressionAlgorithm, StandardFormat } from '../types';
+
+// Every codec the portal can run is registered here with its metadata,
+// options, encoder, decoder and capabilities. Dispatch, archive ids, format
+// detection and the algorithm picker all read from the registry, so adding a
+// codec is one `registerCodec` call (the built-in ones live in codecs.ts).
+const codecs = new Map<CompressionAlgorithm, Codec>();
+
+export function registerCodec(codec: Codec) {
+  if (codecs.has(codec.id)) {
+    throw new Error(`A codec with id "${codec.id}" is already registered`);
+  }
+  for (const existing of codecs.values()) {
+    if (existing.archiveId === codec.archiveId) {
+      throw new Error(`Archive id ${codec.archiveId} is already used by "${existing.id}"`);
+    }
+  }
+  codecs.set(codec.id, codec);
+}
+
+export function getCodec(id: CompressionAlgorithm): Codec {
+  const codec = codecs.get(id);
+  if (!codec) {
+    throw new Error(`Unsupported algorithm: ${id}`);
+  }
+  return codec;
+}
+
+/** Registered codecs in registration order */
+export function listCodecs(): Codec[] {
+  return Array.from(codecs.values());
+}
+
+/** Codecs that can compress new data, in registration order */
+export function listEncoders(): Codec[] {
+  return listCodecs().filter(codec => !codec.capabilities.decodeOnly);
+}
+
+export function codecForArchiveId(archiveId: number): Codec {
+  const codec = listCodecs().find(candidate => candidate.archiveId === archiveId);
+  if (!codec) {
+    throw new Error(`Unknown algorithm id ${archiveId} in archive header`);
+  }
+  return codec;
+}
+
+/**
+ * Fills in defaults for every option the codec declares and checks each value
+ * against its range or choices, and against the option it must not exceed.
+ * Keys the codec does not declare are dropped.
+ */
+export function resolveCodecOptions(codec: Codec, requested: AlgorithmParameters = {}): AlgorithmParameters {
+  const resolved: AlgorithmParameters = {};
+  for (const option of codec.options) {
+    const value = requested[option.key] ?? option.default;
+    if (option.type === 'number') {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < option.min || value > option.max) {
+        throw new Error(`${codec.info.name}: ${option.label} must be a whole number from ${option.min} to ${option.max}`);
+      }
+    } else if (typeof value !== 'string' || !option.choices.includes(value)) {
+      throw new Error(`${codec.info.name}: ${option.label} must be one of ${option.choices.join(', ')}`);
+    }
+    resolved[option.key] = value;
+  }
+  for (const option of codec.options) {
+    if (option.type !== 'number' || !option.atMost) continue;
+    const limit = codec.options.find(other => other.key === option.atMost)!;
+    if ((resolved[option.key] as number) > (resolved[limit.key] as number)) {
+      throw new Error(`${codec.info.name}: ${option.label} must be at most the ${limit.label.toLowerCase()}`);
+    }
+  }
+  return resolved;
+}
+
+export function isCodecAvailable(codec: Codec): boolean {
+  return codec.isAvailable?.() ?? true;
+}
+
+/** The standard format a result downloads in, if its codec and parameters map onto one */
+export function downloadFormatFor(algorithm: CompressionAlgorithm, parameters: AlgorithmParameters): StandardFormat | null {
+  const formats = getCodec(algorithm).capabilities.standardFormats ?? [];
+  return formats.find(format => Object.entries(format.parameters).every(([key, value]) => parameters[key] === value)) ?? null;
+}
+
+/** Every registered standard format, paired with the codec that decodes it */
+export function listStandardFormats(): { codec: Codec; format: StandardFormat }[] {
+  return listCodecs().flatMap(codec => (codec.capabilities.standardFormats ?? []).map(format => ({ codec, format })));
+}
+
+/** Recognises a standard format from the first bytes of a file */
+export function detectStandardFormat(prefix: Uint8Array): { codec: Codec; format: StandardFormat } | null {
+  return listStandardFormats().find(({ format }) => format.detect(prefix)) ?? null;
+}
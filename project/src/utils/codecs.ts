@@ -0,0 +1,331 @@
+import { ArrowDownWideNarrow, Binary, BookOpen, Gauge, Globe, Layers, Repeat, Sigma, Zap } from 'lucide-react';
+import { AlgorithmInfo, CompressionAlgorithm, StandardFormat } from '../types';
+import { registerCodec } from './codecRegistry';
+import {
+  DeflateWrapper,
+  bwtCompress,
+  deflateCompress,
+  huffmanCompress,
+  huffmanDecompress,
+  lz4Compress,
+  lz77Compress,
+  lz77Decompress,
+  lz77LegacyDecompress,
+  lzwCompress,
+  nativeCompressor,
+  rangeCompressor,
+  rleCompress,
+  rleDecompress,
+  rleLegacyDecompress
+} from './compressionAlgorithms';
+import { gunzip, inflateRaw, isGzip, isZlib, readGzipHeader, wrapGzip, wrapZlib, zlibDecompress } from './deflate';
+import { LZ4_DEFAULT_BLOCK_SIZE_ID, isLz4Frame, lz4DecompressFrames } from './lz4';
+import { LZW_MAX_CODE_BITS, LZW_MIN_CODE_BITS, lzwDecode } from './lzw';
+import { rangeDecode } from './rangeCoder';
+import { BWT_DEFAULT_BLOCK_SIZE, BWT_MAX_BLOCK_SIZE, BWT_MIN_BLOCK_SIZE, bwtDecode } from './bwt';
+import { isNativeCompressionSupported, nativeDecompress } from './nativeCompression';
+
+// The built-in codecs. Registration order is the order the algorithm picker
+// shows them in and the order standard formats are tried when detecting an
+// upload. Archive ids are written into .dcpa files, so they must never change.
+
+const gzipFormat: StandardFormat = {
+  name: 'gzip',
+  extensions: ['.gz'],
+  checksumName: 'CRC-32',
+  concatenable: true,
+  parameters: { wrapper: 'gzip' },
+  detect: isGzip,
+  wrap: wrapGzip,
+  unwrap: gunzip,
+  storedFileName: prefix => readGzipHeader(prefix).fileName
+};
+
+const zlibFormat: StandardFormat = {
+  name: 'zlib',
+  extensions: ['.zz', '.zlib'],
+  checksumName: 'Adler-32',
+  concatenable: false,
+  parameters: { wrapper: 'zlib' },
+  detect: isZlib,
+  wrap: (payload, original) => wrapZlib(payload, original),
+  unwrap: zlibDecompress
+};
+
+// The LZ4 payload is already a complete frame
+const lz4Format: StandardFormat = {
+  name: 'lz4',
+  extensions: ['.lz4'],
+  checksumName: 'xxHash32',
+  concatenable: true,
+  parameters: {},
+  detect: isLz4Frame,
+  wrap: payload => payload,
+  unwrap: lz4DecompressFrames
+};
+
+registerCodec({
+  id: 'huffman',
+  archiveId: 1,
+  info: {
+    name: 'Huffman Coding',
+    description: 'Uses variable-length codes for characters based on frequency. More frequent characters get shorter codes.',
+    complexity: 'O(n log n)',
+    bestFor: ['Text files', 'Source code', 'Natural language'],
+    worstFor: ['Random data', 'Already compressed files', 'Binary data']
+  },
+  icon: Zap,
+  options: [{ type: 'number', key: 'maxCodeLength', label: 'Maximum code length (bits)', min: 8, max: 24, default: 24 }],
+  capabilities: { binary: true, streaming: true },
+  compress: (data, onProgress, options) => huffmanCompress(data, onProgress, Number(options.maxCodeLength)),
+  decompress: huffmanDecompress
+});
+
+registerCodec({
+  id: 'rle',
+  archiveId: 13,
+  info: {
+    name: 'Run-Length Encoding',
+    description: 'PackBits-style: a control byte before each span says either "repeat the next byte n times" or "copy the next n bytes as they are", so every byte value round-trips.',
+    complexity: 'O(n)',
+    bestFor: ['Images with large areas of same color', 'Simple graphics', 'Repetitive data'],
+    worstFor: ['Text with no repetition', 'Random data', 'Complex images']
+  },
+  icon: Repeat,
+  options: [
+    { type: 'number', key: 'minRun', label: 'Shortest run worth a control byte', min: 2, max: 128, default: 3, atMost: 'maxRun' },
+    { type: 'number', key: 'maxRun', label: 'Longest run per control byte', min: 2, max: 128, default: 128 }
+  ],
+  capabilities: { binary: true, streaming: true },
+  compress: (data, onProgress, options) => rleCompress(data, onProgress, {
+    minRun: Number(options.minRun),
+    maxRun: Number(options.maxRun)
+  }),
+  decompress: rleDecompress
+});
+
+// Archive id 2 is the original digit-count RLE, which misread input containing digits
+registerCodec({
+  id: 'rle-legacy',
+  archiveId: 2,
+  info: {
+    name: 'Run-Length Encoding (legacy)',
+    description: 'The original RLE format, which wrote counts as ASCII digits. Archives made with it can still be opened.',
+    complexity: 'O(n)',
+    bestFor: ['Opening old archives'],
+    worstFor: ['Any input containing digits']
+  },
+  icon: Repeat,
+  options: [],
+  capabilities: { binary: false, streaming: true, decodeOnly: true },
+  compress: () => {
+    throw new Error('The legacy RLE format can only be decoded');
+  },
+  decompress: rleLegacyDecompress
+});
+
+registerCodec({
+  id: 'lz77',
+  archiveId: 14,
+  info: {
+    name: 'LZ77',
+    description: 'Replaces repeated substrings with bit-packed references to previous occurrences, found with a hash-chain search.',
+    complexity: 'O(n · chain depth)',
+    bestFor: ['General text', 'Documents', 'Mixed content'],
+    worstFor: ['Very short files', 'Completely random data']
+  },
+  icon: Binary,
+  options: [
+    { type: 'number', key: 'windowSize', label: 'Window size (bytes)', min: 256, max: 32768, default: 4096 },
+    { type: 'number', key: 'lookAheadSize', label: 'Look-ahead (bytes)', min: 4, max: 258, default: 18 },
+    { type: 'number', key: 'maxChainDepth', label: 'Match search depth', min: 1, max: 1024, default: 64 }
+  ],
+  capabilities: { binary: true, streaming: true },
+  compress: (data, onProgress, options) => lz77Compress(data, onProgress, {
+    windowSize: Number(options.windowSize),
+    lookAheadSize: Number(options.lookAheadSize),
+    maxChainDepth: Number(options.maxChainDepth)
+  }),
+  decompress: lz77Decompress
+});
+
+// Archive id 3 is the original LZ77, which stored its tokens as JSON
+registerCodec({
+  id: 'lz77-legacy',
+  archiveId: 3,
+  info: {
+    name: 'LZ77 (legacy)',
+    description: 'The original LZ77 format, which wrote every token as JSON. Archives made with it can still be opened.',
+    complexity: 'O(n)',
+    bestFor: ['Opening old archives'],
+    worstFor: ['Any new compression']
+  },
+  icon: Binary,
+  options: [],
+  capabilities: { binary: true, streaming: true, decodeOnly: true },
+  compress: () => {
+    throw new Error('The legacy LZ77 format can only be decoded');
+  },
+  decompress: lz77LegacyDecompress
+});
+
+registerCodec({
+  id: 'deflate',
+  archiveId: 4,
+  info: {
+    name: 'DEFLATE (gzip)',
+    description: 'LZ77 matches over a 32 KB window, entropy coded with per-block Huffman tables. Saved as a standard .gz file that gunzip and other tools can open.',
+    complexity: 'O(n · chain depth)',
+    bestFor: ['General purpose', 'Text and source code', 'Sharing with other tools'],
+    worstFor: ['Already compressed files', 'Random data']
+  },
+  icon: Layers,
+  options: [
+    { type: 'choice', key: 'wrapper', label: 'File format', choices: ['gzip', 'zlib'], default: 'gzip' },
+    { type: 'number', key: 'maxChainDepth', label: 'Match search depth', min: 1, max: 4096, default: 128 }
+  ],
+  capabilities: { binary: true, streaming: true, standardFormats: [gzipFormat, zlibFormat] },
+  compress: (data, onProgress, options) => deflateCompress(data, onProgress, {
+    wrapper: options.wrapper as DeflateWrapper,
+    maxChainDepth: Number(options.maxChainDepth)
+  }),
+  decompress: inflateRaw
+});
+
+registerCodec({
+  id: 'lzw',
+  archiveId: 8,
+  info: {
+    name: 'LZW',
+    description: 'Builds a dictionary of every new string it sees and emits dictionary codes that widen from 9 to 16 bits. The dictionary is reset with a clear code when it fills, as in GIF, TIFF and Unix compress.',
+    complexity: 'O(n)',
+    bestFor: ['Text with recurring words', 'Simple images', 'Legacy format interop'],
+    worstFor: ['Random data', 'Already compressed files', 'Very short files']
+  },
+  icon: BookOpen,
+  options: [
+    { type: 'number', key: 'maxCodeBits', label: 'Maximum code width (bits)', min: LZW_MIN_CODE_BITS, max: LZW_MAX_CODE_BITS, default: LZW_MAX_CODE_BITS }
+  ],
+  capabilities: { binary: true, streaming: true },
+  compress: (data, onProgress, options) => lzwCompress(data, onProgress, Number(options.maxCodeBits)),
+  decompress: lzwDecode
+});
+
+registerCodec({
+  id: 'range',
+  archiveId: 9,
+  info: {
+    name: 'Range Coder (order-0)',
+    description: 'Arithmetic coding with an adaptive model of byte frequencies. Unlike Huffman it can spend a fraction of a bit per symbol, so it gets within a fraction of a percent of the Shannon limit.',
+    complexity: 'O(n)',
+    bestFor: ['Skewed byte distributions', 'Log files', 'Data dominated by a few symbols'],
+    worstFor: ['Random data', 'Data whose redundancy is in repeated strings']
+  },
+  icon: Sigma,
+  options: [],
+  capabilities: { binary: true, streaming: true },
+  compress: rangeCompressor(0),
+  decompress: rangeDecode
+});
+
+registerCodec({
+  id: 'range-o1',
+  archiveId: 10,
+  info: {
+    name: 'Range Coder (order-1)',
+    description: 'The same range coder with a separate adaptive model for every preceding byte, so it learns which bytes tend to follow which and can beat the order-0 Shannon limit.',
+    complexity: 'O(n)',
+    bestFor: ['Text and logs', 'Structured records', 'Source code'],
+    worstFor: ['Random data', 'Very short files']
+  },
+  icon: Sigma,
+  options: [],
+  capabilities: { binary: true, streaming: true },
+  compress: rangeCompressor(1),
+  decompress: rangeDecode
+});
+
+registerCodec({
+  id: 'bwt',
+  archiveId: 11,
+  info: {
+    name: 'BWT + MTF (bzip2-style)',
+    description: 'Sorts every rotation of each block so that bytes with similar contexts cluster together, then applies Move-to-Front, zero-run RLE and an adaptive range coder.',
+    complexity: 'O(n log n)',
+    bestFor: ['Text and logs', 'CSV and other tabular data', 'Source code'],
+    worstFor: ['Random data', 'Already compressed files']
+  },
+  icon: ArrowDownWideNarrow,
+  options: [
+    {
+      type: 'number',
+      key: 'blockSize',
+      label: 'Sort block size (bytes)',
+      min: BWT_MIN_BLOCK_SIZE,
+      max: BWT_MAX_BLOCK_SIZE,
+      step: 100 * 1000,
+      default: BWT_DEFAULT_BLOCK_SIZE
+    }
+  ],
+  capabilities: { binary: true, streaming: true },
+  compress: (data, onProgress, options) => bwtCompress(data, onProgress, Number(options.blockSize)),
+  decompress: bwtDecode
+});
+
+registerCodec({
+  id: 'lz4',
+  archiveId: 12,
+  info: {
+    name: 'LZ4',
+    description: 'Greedy LZ77 with a single hash probe per position and byte-aligned tokens instead of entropy coding. Trades ratio for very fast compression and decompression, and downloads as a standard .lz4 frame.',
+    complexity: 'O(n)',
+    bestFor: ['Speed over ratio', 'Logs and text', 'Repetitive binary data'],
+    worstFor: ['Maximum compression', 'Random data']
+  },
+  icon: Gauge,
+  options: [
+    { type: 'number', key: 'blockSizeId', label: 'Frame block size (4 = 64 KB … 7 = 4 MB)', min: 4, max: 7, default: LZ4_DEFAULT_BLOCK_SIZE_ID }
+  ],
+  capabilities: { binary: true, streaming: true, standardFormats: [lz4Format] },
+  compress: (data, onProgress, options) => lz4Compress(data, onProgress, Number(options.blockSizeId)),
+  decompress: payload => lz4DecompressFrames(payload).data
+});
+
+// Browser CompressionStream baselines
+function registerNativeCodec(id: CompressionAlgorithm, archiveId: number, format: CompressionFormat, info: AlgorithmInfo) {
+  registerCodec({
+    id,
+    archiveId,
+    info: { ...info, baseline: true },
+    icon: Globe,
+    options: [],
+    capabilities: { binary: true, streaming: true },
+    isAvailable: isNativeCompressionSupported,
+    compress: nativeCompressor(id, format, info.name),
+    decompress: payload => nativeDecompress(format, payload)
+  });
+}
+
+registerNativeCodec('native-gzip', 5, 'gzip', {
+  name: 'gzip (native)',
+  description: 'The browser\'s built-in CompressionStream in gzip mode. A production-grade reference point for the hand-written codecs.',
+  complexity: 'O(n)',
+  bestFor: ['Baseline comparison', 'General purpose', 'Text and source code'],
+  worstFor: ['Already compressed files', 'Random data']
+});
+
+registerNativeCodec('native-deflate', 6, 'deflate', {
+  name: 'zlib (native)',
+  description: 'The browser\'s built-in CompressionStream in "deflate" mode, which produces a zlib-framed DEFLATE stream.',
+  complexity: 'O(n)',
+  bestFor: ['Baseline comparison', 'General purpose', 'Text and source code'],
+  worstFor: ['Already compressed files', 'Random data']
+});
+
+registerNativeCodec('native-deflate-raw', 7, 'deflate-raw', {
+  name: 'Raw DEFLATE (native)',
+  description: 'The browser\'s built-in CompressionStream in "deflate-raw" mode: DEFLATE with no header or checksum.',
+  complexity: 'O(n)',
+  bestFor: ['Baseline comparison', 'Measuring framing overhead', 'General purpose'],
+  worstFor: ['Already compressed files', 'Random data']
+});
@@ -0,0 +1,66 @@
+import { ComparisonEntry, ProcessingProgress } from '../types';
+import { compressData, createArchive, decompressPayload } from './compressionAlgorithms';
+import { isCodecAvailable, listEncoders } from './codecRegistry';
+import { bytesEqual } from './bytes';
+
+/**
+ * Runs every available codec over the same input, one after another, and
+ * decodes each output again to time decompression and check the round trip.
+ * A codec that throws is reported in its entry rather than ending the run.
+ */
+export async function compareCodecs(
+  data: Uint8Array,
+  fileName: string,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<ComparisonEntry[]> {
+  const codecs = listEncoders().filter(isCodecAvailable);
+  const entries: ComparisonEntry[] = [];
+
+  for (const [index, codec] of codecs.entries()) {
+    const { id: algorithm, info: { name } } = codec;
+    // Each codec gets an equal share of the bar: 80% compressing, 20% verifying
+    const report = (fraction: number, message: string) => onProgress?.({
+      stage: name,
+      progress: ((index + fraction) / codecs.length) * 100,
+      message: `${message} (${index + 1}/${codecs.length})`
+    });
+
+    report(0, `Compressing with ${name}...`);
+    try {
+      const result = await compressData(algorithm, data, progress => report((progress.progress / 100) * 0.8, progress.message));
+      const { archive, archiveName } = createArchive(result, fileName);
+
+      report(0.8, `Verifying the ${name} round trip...`);
+      let restored: Uint8Array | null = null;
+      let error: string | undefined;
+      const startTime = performance.now();
+      try {
+        restored = await decompressPayload(algorithm, result.compressedData!);
+      } catch (decodeError) {
+        error = decodeError instanceof Error ? decodeError.message : String(decodeError);
+      }
+      const decompressionTime = performance.now() - startTime;
+
+      entries.push({
+        algorithm,
+        name,
+        result: { ...result, compressedData: undefined, originalData: undefined },
+        decompressionTime,
+        roundTrip: restored !== null && bytesEqual(restored, data),
+        archive: new Blob([archive], { type: 'application/octet-stream' }),
+        archiveName,
+        error
+      });
+    } catch (compressError) {
+      entries.push({
+        algorithm,
+        name,
+        roundTrip: false,
+        error: compressError instanceof Error ? compressError.message : String(compressError)
+      });
+    }
+  }
+
+  onProgress?.({ stage: 'Complete', progress: 100, message: `Compared ${codecs.length} algorithms` });
+  return entries;
+}
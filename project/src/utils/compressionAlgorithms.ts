@@ -1,33 +1,59 @@
-import { CompressionResult, ProcessingProgress } from '../types';
+import {
+  AlgorithmParameters,
+  CompressionAlgorithm,
+  CompressionResult,
+  DecompressionResult,
+  HuffmanMerge,
+  HuffmanTrace,
+  HuffmanTraceNode,
+  Lz77Token,
+  ProcessingProgress
+} from '../types';
+import { ARCHIVE_EXTENSION, readArchive, readBlockFrames, writeArchive } from './archiveFormat';
+import { compressionRatio } from './compressionRatio';
+import { crc32 } from './crc32';
+import { BitReader, BitWriter, ByteReader, ByteWriter } from './bitStream';
+import { HashChainMatchFinder } from './lz77MatchFinder';
+import { deflateRaw } from './deflate';
+import { LZ4_DEFAULT_BLOCK_SIZE_ID, lz4CompressFrame } from './lz4';
+import { nativeCompress } from './nativeCompression';
+import { LZW_MAX_CODE_BITS, LZW_MIN_CODE_BITS, lzwEncode } from './lzw';
+import { ContextOrder, rangeEncode } from './rangeCoder';
+import { byteHistogram, shannonEntropy } from './entropy';
+import { BWT_DEFAULT_BLOCK_SIZE, bwtEncode } from './bwt';
+import { downloadFormatFor, getCodec, resolveCodecOptions } from './codecRegistry';
 
 // Huffman Coding Implementation
 class HuffmanNode {
-  char: string | null;
+  symbol: number | null;
   freq: number;
   left: HuffmanNode | null;
   right: HuffmanNode | null;
 
-  constructor(char: string | null, freq: number) {
-    this.char = char;
+  constructor(symbol: number | null, freq: number) {
+    this.symbol = symbol;
     this.freq = freq;
     this.left = null;
     this.right = null;
   }
 }
 
-function buildFrequencyTable(data: string): Map<string, number> {
-  const freqTable = new Map<string, number>();
-  for (const char of data) {
-    freqTable.set(char, (freqTable.get(char) || 0) + 1);
+function buildFrequencyTable(counts: ArrayLike<number>): Map<number, number> {
+  const freqTable = new Map<number, number>();
+  for (let byte = 0; byte < counts.length; byte++) {
+    if (counts[byte] > 0) freqTable.set(byte, counts[byte]);
   }
   return freqTable;
 }
 
-function buildHuffmanTree(freqTable: Map<string, number>): HuffmanNode | null {
+function buildHuffmanTree(
+  freqTable: Map<number, number>,
+  onMerge?: (left: HuffmanNode, right: HuffmanNode, parent: HuffmanNode) => void
+): HuffmanNode | null {
   const nodes: HuffmanNode[] = [];
   
-  for (const [char, freq] of freqTable) {
-    nodes.push(new HuffmanNode(char, freq));
+  for (const [symbol, freq] of freqTable) {
+    nodes.push(new HuffmanNode(symbol, freq));
   }
 
   if (nodes.length === 0) return null;
@@ -42,6 +68,7 @@ function buildHuffmanTree(freqTable: Map<string, number>): HuffmanNode | null {
     const parent = new HuffmanNode(null, left.freq + right.freq);
     parent.left = left;
     parent.right = right;
+    onMerge?.(left, right, parent);
     
     nodes.push(parent);
   }
@@ -49,11 +76,11 @@ function buildHuffmanTree(freqTable: Map<string, number>): HuffmanNode | null {
   return nodes[0];
 }
 
-function generateCodes(root: HuffmanNode | null, code = '', codes: Map<string, string> = new Map()): Map<string, string> {
+function generateCodes(root: HuffmanNode | null, code = '', codes: Map<number, string> = new Map()): Map<number, string> {
   if (!root) return codes;
 
-  if (root.char !== null) {
-    codes.set(root.char, code || '0');
+  if (root.symbol !== null) {
+    codes.set(root.symbol, code || '0');
     return codes;
   }
 
@@ -63,205 +90,878 @@ function generateCodes(root: HuffmanNode | null, code = '', codes: Map<string, s
   return codes;
 }
 
-export function huffmanCompress(data: string, onProgress?: (progress: ProcessingProgress) => void): CompressionResult {
+// Canonical Huffman codes: only the code length of each symbol is stored, and
+// both sides assign codes in (length, symbol) order so the table rebuilds exactly.
+const MAX_HUFFMAN_CODE_LENGTH = 24;
+const HUFFMAN_REPORT_INTERVAL = 64 * 1024;
+
+interface CanonicalCode {
+  symbol: number;
+  length: number;
+  code: number;
+}
+
+function limitCodeLengths(lengths: Map<number, number>, maxLength: number): Map<number, number> {
+  const limited = new Map<number, number>();
+  for (const [symbol, length] of lengths) {
+    limited.set(symbol, Math.min(length, maxLength));
+  }
+
+  // Clamping can oversubscribe the code space; lengthen the deepest codes that
+  // still have room until the Kraft sum fits again.
+  const capacity = 2 ** maxLength;
+  let kraft = 0;
+  for (const length of limited.values()) kraft += 2 ** (maxLength - length);
+
+  while (kraft > capacity) {
+    let candidate = -1;
+    let candidateLength = 0;
+    for (const [symbol, length] of limited) {
+      if (length < maxLength && length > candidateLength) {
+        candidate = symbol;
+        candidateLength = length;
+      }
+    }
+    limited.set(candidate, candidateLength + 1);
+    kraft -= 2 ** (maxLength - candidateLength - 1);
+  }
+
+  return limited;
+}
+
+function assignCanonicalCodes(lengths: Map<number, number>): CanonicalCode[] {
+  const entries = Array.from(lengths, ([symbol, length]) => ({ symbol, length, code: 0 }))
+    .sort((a, b) => a.length - b.length || a.symbol - b.symbol);
+
+  let code = 0;
+  let previousLength = entries.length > 0 ? entries[0].length : 0;
+  for (const entry of entries) {
+    code <<= entry.length - previousLength;
+    entry.code = code;
+    previousLength = entry.length;
+    code++;
+  }
+
+  return entries;
+}
+
+function buildTreeFromCanonicalCodes(codes: CanonicalCode[]): HuffmanNode {
+  const root = new HuffmanNode(null, 0);
+
+  for (const { symbol, length, code } of codes) {
+    let node = root;
+    for (let bit = length - 1; bit >= 0; bit--) {
+      const goRight = (code >>> bit) & 1;
+      const next = goRight ? node.right : node.left;
+      if (next) {
+        node = next;
+      } else {
+        const child = new HuffmanNode(null, 0);
+        if (goRight) node.right = child;
+        else node.left = child;
+        node = child;
+      }
+    }
+    node.symbol = symbol;
+  }
+
+  return root;
+}
+
+export function huffmanCompress(
+  data: Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void,
+  maxCodeLength = MAX_HUFFMAN_CODE_LENGTH
+): CompressionResult {
   const startTime = performance.now();
   
-  onProgress?.({ stage: 'Analyzing', progress: 10, message: 'Building frequency table...' });
-  const freqTable = buildFrequencyTable(data);
+  // Encoding the bits is nearly all of the work, so it gets most of the bar
+  onProgress?.({ stage: 'Analyzing', progress: 5, message: 'Building frequency table...' });
+  const freqTable = buildFrequencyTable(byteHistogram(data));
   
-  onProgress?.({ stage: 'Building Tree', progress: 30, message: 'Constructing Huffman tree...' });
+  onProgress?.({ stage: 'Building Tree', progress: 10, message: 'Constructing Huffman tree...' });
   const root = buildHuffmanTree(freqTable);
   
-  onProgress?.({ stage: 'Generating Codes', progress: 50, message: 'Creating character codes...' });
-  const codes = generateCodes(root);
+  onProgress?.({ stage: 'Generating Codes', progress: 12, message: 'Creating canonical codes...' });
+  const treeCodes = generateCodes(root);
+  const codeLengths = new Map<number, number>();
+  for (const [symbol, code] of treeCodes) {
+    codeLengths.set(symbol, code.length);
+  }
+  const canonicalCodes = assignCanonicalCodes(limitCodeLengths(codeLengths, maxCodeLength));
+  const codeBySymbol = new Map(canonicalCodes.map(entry => [entry.symbol, entry]));
   
-  onProgress?.({ stage: 'Compressing', progress: 70, message: 'Encoding data...' });
-  let compressed = '';
-  for (const char of data) {
-    compressed += codes.get(char) || '';
+  onProgress?.({ stage: 'Compressing', progress: 15, message: 'Encoding data...' });
+  // Payload: byte count, code length table, then the MSB-first bit stream
+  const bits = new BitWriter();
+  let nextReport = HUFFMAN_REPORT_INTERVAL;
+  for (let i = 0; i < data.length; i++) {
+    if (i >= nextReport) {
+      onProgress?.({ stage: 'Compressing', progress: 15 + (i / data.length) * 80, message: `Encoding byte ${i + 1}/${data.length}...` });
+      nextReport += HUFFMAN_REPORT_INTERVAL;
+    }
+    const { code, length } = codeBySymbol.get(data[i])!;
+    bits.writeBits(code, length);
   }
 
-  // Convert binary string to bytes for realistic size calculation
-  const compressedBytes = Math.ceil(compressed.length / 8);
-  const headerSize = JSON.stringify(Object.fromEntries(codes)).length;
+  const header = new ByteWriter();
+  header.writeVarint(data.length);
+  header.writeVarint(canonicalCodes.length);
+  for (const { symbol, length } of [...canonicalCodes].sort((a, b) => a.symbol - b.symbol)) {
+    header.writeUint8(symbol);
+    header.writeUint8(length);
+  }
+  header.writeBytes(bits.toUint8Array());
+  const compressed = header.toUint8Array();
   
   onProgress?.({ stage: 'Complete', progress: 100, message: 'Compression complete!' });
   
   const endTime = performance.now();
-  const originalSize = new Blob([data]).size;
-  const compressedSize = compressedBytes + headerSize;
+  const originalSize = data.length;
+  const compressedSize = compressed.length;
 
   return {
     originalSize,
     compressedSize,
-    compressionRatio: ((originalSize - compressedSize) / originalSize) * 100,
+    compressionRatio: compressionRatio(originalSize, compressedSize),
     processingTime: endTime - startTime,
     algorithm: 'Huffman Coding',
+    algorithmId: 'huffman',
+    parameters: { maxCodeLength },
     compressedData: compressed,
     originalData: data
   };
 }
 
+/**
+ * Builds the same tree and codes huffmanCompress would for these byte counts,
+ * recording each merge so the construction can be replayed.
+ */
+export function traceHuffmanTree(counts: ArrayLike<number>): HuffmanTrace {
+  const freqTable = buildFrequencyTable(counts);
+  const nodes: HuffmanTraceNode[] = [];
+  const ids = new Map<HuffmanNode, number>();
+  const merges: HuffmanMerge[] = [];
+
+  const register = (node: HuffmanNode) => {
+    ids.set(node, nodes.length);
+    nodes.push({
+      id: nodes.length,
+      symbol: node.symbol,
+      freq: node.freq,
+      left: node.left ? ids.get(node.left)! : null,
+      right: node.right ? ids.get(node.right)! : null
+    });
+  };
+
+  // Leaves are registered in the order buildHuffmanTree creates them
+  const root = buildHuffmanTree(freqTable, (left, right, parent) => {
+    for (const child of [left, right]) if (!ids.has(child)) register(child);
+    register(parent);
+    merges.push({ left: ids.get(left)!, right: ids.get(right)!, parent: ids.get(parent)! });
+  });
+  // Unmerged leaves only remain when there is a single symbol
+  if (root && !ids.has(root)) register(root);
+
+  // Leaves first keeps ids stable as merges are replayed
+  const leafOrder = [...nodes.filter(node => node.symbol !== null), ...nodes.filter(node => node.symbol === null)];
+  const renumber = new Map(leafOrder.map((node, index) => [node.id, index]));
+  const renumbered = leafOrder.map(node => ({
+    ...node,
+    id: renumber.get(node.id)!,
+    left: node.left === null ? null : renumber.get(node.left)!,
+    right: node.right === null ? null : renumber.get(node.right)!
+  }));
+
+  const treeCodes = generateCodes(root);
+  const lengths = new Map(Array.from(treeCodes, ([symbol, code]) => [symbol, code.length]));
+  const codes = assignCanonicalCodes(limitCodeLengths(lengths, MAX_HUFFMAN_CODE_LENGTH))
+    .map(({ symbol, length, code }) => ({
+      symbol,
+      freq: freqTable.get(symbol)!,
+      treeCode: treeCodes.get(symbol)!,
+      code: code.toString(2).padStart(length, '0')
+    }))
+    .sort((a, b) => b.freq - a.freq || a.symbol - b.symbol);
+
+  return {
+    nodes: renumbered,
+    root: root ? renumber.get(ids.get(root)!)! : null,
+    merges: merges.map(merge => ({
+      left: renumber.get(merge.left)!,
+      right: renumber.get(merge.right)!,
+      parent: renumber.get(merge.parent)!
+    })),
+    codes
+  };
+}
+
+export function huffmanDecompress(compressed: Uint8Array): Uint8Array {
+  const reader = new ByteReader(compressed);
+  const byteCount = reader.readVarint();
+  const tableSize = reader.readVarint();
+
+  const codeLengths = new Map<number, number>();
+  for (let i = 0; i < tableSize; i++) {
+    const symbol = reader.readUint8();
+    codeLengths.set(symbol, reader.readUint8());
+  }
+
+  const output = new Uint8Array(byteCount);
+  if (byteCount === 0) return output;
+
+  const root = buildTreeFromCanonicalCodes(assignCanonicalCodes(codeLengths));
+  const bits = new BitReader(compressed, reader.offset);
+
+  for (let i = 0; i < byteCount; i++) {
+    let node = root;
+    while (node.symbol === null) {
+      const next = bits.readBit() ? node.right : node.left;
+      if (!next) {
+        throw new Error('Invalid Huffman code in compressed data');
+      }
+      node = next;
+    }
+    output[i] = node.symbol;
+  }
+
+  return output;
+}
+
 // Run-Length Encoding Implementation
-export function rleCompress(data: string, onProgress?: (progress: ProcessingProgress) => void): CompressionResult {
+//
+// PackBits: each control byte n is followed by either n + 1 literal bytes
+// (n = 0..127) or one byte to repeat 257 - n times (n = 129..255). 128 is a
+// no-op. Every byte value round-trips, and the worst case adds one byte per
+// 128 bytes of input.
+const RLE_MAX_LITERAL = 128;
+const RLE_REPORT_INTERVAL = 64 * 1024;
+
+export interface RleOptions {
+  /** Shorter runs are cheaper inside a literal span than as a run of their own */
+  minRun: number;
+  /** Longest run one control byte covers; the format allows up to 128 */
+  maxRun: number;
+}
+
+export const RLE_DEFAULT_OPTIONS: RleOptions = { minRun: 3, maxRun: 128 };
+
+export function rleCompress(
+  data: Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void,
+  options: RleOptions = RLE_DEFAULT_OPTIONS
+): CompressionResult {
+  const { minRun, maxRun } = options;
+  if (maxRun < 2 || maxRun > 128) {
+    throw new Error(`RLE run length cap ${maxRun} is outside 2–128`);
+  }
+  // No run could reach the threshold, so the output would be literals only
+  if (minRun > maxRun) {
+    throw new Error(`RLE shortest run ${minRun} is longer than the run length cap ${maxRun}`);
+  }
   const startTime = performance.now();
   
   onProgress?.({ stage: 'Analyzing', progress: 20, message: 'Scanning for repetitions...' });
   
-  let compressed = '';
+  const compressed = new ByteWriter(data.length + (data.length >>> 7) + 16);
+  let literalStart = 0;
   let i = 0;
+  let nextReport = RLE_REPORT_INTERVAL;
+
+  const flushLiterals = (end: number) => {
+    for (let start = literalStart; start < end; start += RLE_MAX_LITERAL) {
+      const length = Math.min(RLE_MAX_LITERAL, end - start);
+      compressed.writeUint8(length - 1);
+      compressed.writeBytes(data.subarray(start, start + length));
+    }
+  };
   
   while (i < data.length) {
-    onProgress?.({ stage: 'Compressing', progress: 20 + (i / data.length) * 60, message: `Processing character ${i + 1}/${data.length}...` });
+    if (i >= nextReport) {
+      onProgress?.({ stage: 'Compressing', progress: 20 + (i / data.length) * 60, message: `Processing byte ${i + 1}/${data.length}...` });
+      nextReport += RLE_REPORT_INTERVAL;
+    }
     
-    const currentChar = data[i];
+    const currentByte = data[i];
     let count = 1;
     
-    while (i + count < data.length && data[i + count] === currentChar && count < 255) {
+    while (i + count < data.length && data[i + count] === currentByte && count < maxRun) {
       count++;
     }
     
-    if (count > 3 || (count > 1 && /[^a-zA-Z0-9]/.test(currentChar))) {
-      compressed += `${count}${currentChar}`;
-    } else {
-      compressed += currentChar.repeat(count);
+    if (count >= minRun) {
+      flushLiterals(i);
+      compressed.writeUint8(257 - count);
+      compressed.writeUint8(currentByte);
+      literalStart = i + count;
     }
     
     i += count;
   }
+  flushLiterals(data.length);
   
   onProgress?.({ stage: 'Complete', progress: 100, message: 'RLE compression complete!' });
   
   const endTime = performance.now();
-  const originalSize = new Blob([data]).size;
-  const compressedSize = new Blob([compressed]).size;
+  const originalSize = data.length;
+  const compressedSize = compressed.size;
 
   return {
     originalSize,
     compressedSize,
-    compressionRatio: ((originalSize - compressedSize) / originalSize) * 100,
+    compressionRatio: compressionRatio(originalSize, compressedSize),
     processingTime: endTime - startTime,
     algorithm: 'Run-Length Encoding',
-    compressedData: compressed,
+    algorithmId: 'rle',
+    parameters: { format: 'packbits', maxRun, minRun },
+    compressedData: compressed.toUint8Array(),
     originalData: data
   };
 }
 
-// LZ77 Implementation (Simplified)
-export function lz77Compress(data: string, onProgress?: (progress: ProcessingProgress) => void): CompressionResult {
-  const startTime = performance.now();
-  const windowSize = 4096;
-  const lookAheadSize = 18;
-  
-  onProgress?.({ stage: 'Initializing', progress: 10, message: 'Setting up LZ77 compression...' });
-  
-  const compressed: Array<{ offset: number; length: number; nextChar: string }> = [];
+// LZ77 Implementation
+//
+// Payload: varint original length, then u8 offset bits, u8 length bits and
+// u8 minimum match length, followed by an MSB-first stream of tokens:
+//   0 + 8-bit literal
+//   1 + (offset - 1) in offset bits + (length - min match) in length bits
+const LZ77_MIN_MATCH = 3;
+
+function bitsFor(values: number): number {
+  return Math.max(1, Math.ceil(Math.log2(values)));
+}
+
+export interface Lz77Options {
+  /** Furthest a match may reach back */
+  windowSize: number;
+  /** Longest match, i.e. how far ahead of the current position is searched */
+  lookAheadSize: number;
+  maxChainDepth: number;
+}
+
+export const LZ77_DEFAULT_OPTIONS: Lz77Options = { windowSize: 4096, lookAheadSize: 18, maxChainDepth: 64 };
+
+/** Encodes an LZ77 payload, reporting every token as it is emitted */
+export function lz77Encode(
+  data: Uint8Array,
+  options: Lz77Options = LZ77_DEFAULT_OPTIONS,
+  onToken?: (token: Lz77Token) => void
+): Uint8Array {
+  const { windowSize, lookAheadSize, maxChainDepth } = options;
+  const offsetBits = bitsFor(windowSize);
+  const lengthBits = bitsFor(lookAheadSize - LZ77_MIN_MATCH + 1);
+  const finder = new HashChainMatchFinder(data, { windowSize, maxMatchLength: lookAheadSize, maxChainDepth });
+  const bits = new BitWriter();
   let i = 0;
   
   while (i < data.length) {
-    onProgress?.({ stage: 'Compressing', progress: 10 + (i / data.length) * 80, message: `Processing position ${i + 1}/${data.length}...` });
-    
-    const windowStart = Math.max(0, i - windowSize);
-    const window = data.substring(windowStart, i);
-    const lookAhead = data.substring(i, i + lookAheadSize);
-    
-    let bestMatch = { offset: 0, length: 0 };
+    const match = finder.findMatch(i);
     
-    for (let j = 0; j < window.length; j++) {
-      let matchLength = 0;
-      while (
-        matchLength < lookAhead.length &&
-        matchLength < lookAheadSize &&
-        window[j + matchLength] === lookAhead[matchLength]
-      ) {
-        matchLength++;
-      }
-      
-      if (matchLength > bestMatch.length) {
-        bestMatch = { offset: window.length - j, length: matchLength };
+    if (match.length >= LZ77_MIN_MATCH) {
+      onToken?.({ type: 'match', position: i, offset: match.offset, length: match.length });
+      bits.writeBit(1);
+      bits.writeBits(match.offset - 1, offsetBits);
+      bits.writeBits(match.length - LZ77_MIN_MATCH, lengthBits);
+      for (let j = 0; j < match.length; j++) {
+        finder.insert(i + j);
       }
+      i += match.length;
+    } else {
+      onToken?.({ type: 'literal', position: i, byte: data[i] });
+      bits.writeBit(0);
+      bits.writeBits(data[i], 8);
+      finder.insert(i);
+      i++;
     }
-    
-    const nextChar = i + bestMatch.length < data.length ? data[i + bestMatch.length] : '';
-    compressed.push({
-      offset: bestMatch.offset,
-      length: bestMatch.length,
-      nextChar
-    });
-    
-    i += Math.max(1, bestMatch.length);
   }
+
+  const header = new ByteWriter();
+  header.writeVarint(data.length);
+  header.writeUint8(offsetBits);
+  header.writeUint8(lengthBits);
+  header.writeUint8(LZ77_MIN_MATCH);
+  header.writeBytes(bits.toUint8Array());
+  return header.toUint8Array();
+}
+
+export function lz77Compress(
+  data: Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void,
+  options: Lz77Options = LZ77_DEFAULT_OPTIONS
+): CompressionResult {
+  const startTime = performance.now();
+  
+  onProgress?.({ stage: 'Initializing', progress: 10, message: 'Setting up LZ77 compression...' });
+  
+  const reportInterval = Math.max(1, Math.floor(data.length / 100));
+  let nextReport = 0;
+  const compressed = lz77Encode(data, options, ({ position }) => {
+    if (position >= nextReport) {
+      onProgress?.({ stage: 'Compressing', progress: 10 + (position / data.length) * 80, message: `Processing position ${position + 1}/${data.length}...` });
+      nextReport = position + reportInterval;
+    }
+  });
   
   onProgress?.({ stage: 'Complete', progress: 100, message: 'LZ77 compression complete!' });
   
   const endTime = performance.now();
-  const originalSize = new Blob([data]).size;
-  const compressedSize = compressed.length * 6; // Rough estimate for triplet encoding
+  const originalSize = data.length;
+  const compressedSize = compressed.length;
   
   return {
     originalSize,
     compressedSize,
-    compressionRatio: ((originalSize - compressedSize) / originalSize) * 100,
+    compressionRatio: compressionRatio(originalSize, compressedSize),
     processingTime: endTime - startTime,
     algorithm: 'LZ77',
-    compressedData: JSON.stringify(compressed),
+    algorithmId: 'lz77',
+    parameters: { ...options },
+    compressedData: compressed,
+    originalData: data
+  };
+}
+
+// DEFLATE Implementation
+//
+// Payload: a raw RFC 1951 stream. Downloads are framed as gzip or zlib
+// according to the `wrapper` parameter so standard tools can open them.
+export type DeflateWrapper = 'gzip' | 'zlib';
+
+export interface DeflateOptions {
+  /** Container the payload downloads in; the payload itself is the same raw DEFLATE */
+  wrapper: DeflateWrapper;
+  maxChainDepth: number;
+}
+
+export const DEFLATE_DEFAULT_OPTIONS: DeflateOptions = { wrapper: 'gzip', maxChainDepth: 128 };
+
+export function deflateCompress(
+  data: Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void,
+  options: DeflateOptions = DEFLATE_DEFAULT_OPTIONS
+): CompressionResult {
+  const startTime = performance.now();
+  const windowSize = 32768;
+  const { wrapper, maxChainDepth } = options;
+
+  onProgress?.({ stage: 'Initializing', progress: 10, message: 'Setting up DEFLATE compression...' });
+
+  const compressed = deflateRaw(data, {
+    maxChainDepth,
+    onProgress: fraction => onProgress?.({
+      stage: 'Compressing',
+      progress: 10 + fraction * 80,
+      message: `Processing position ${Math.round(fraction * data.length)}/${data.length}...`
+    })
+  });
+
+  onProgress?.({ stage: 'Complete', progress: 100, message: 'DEFLATE compression complete!' });
+
+  const endTime = performance.now();
+  const originalSize = data.length;
+  const compressedSize = compressed.length;
+
+  return {
+    originalSize,
+    compressedSize,
+    compressionRatio: compressionRatio(originalSize, compressedSize),
+    processingTime: endTime - startTime,
+    algorithm: 'DEFLATE',
+    algorithmId: 'deflate',
+    parameters: { wrapper, windowSize, maxChainDepth },
+    compressedData: compressed,
+    originalData: data
+  };
+}
+
+// LZW Implementation (see lzw.ts for the payload layout)
+export function lzwCompress(
+  data: Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void,
+  maxCodeBits = LZW_MAX_CODE_BITS
+): CompressionResult {
+  const startTime = performance.now();
+  const minCodeBits = LZW_MIN_CODE_BITS;
+
+  onProgress?.({ stage: 'Initializing', progress: 10, message: 'Setting up LZW dictionary...' });
+
+  const compressed = lzwEncode(data, {
+    maxCodeBits,
+    onProgress: fraction => onProgress?.({
+      stage: 'Compressing',
+      progress: 10 + fraction * 80,
+      message: `Processing position ${Math.round(fraction * data.length)}/${data.length}...`
+    })
+  });
+
+  onProgress?.({ stage: 'Complete', progress: 100, message: 'LZW compression complete!' });
+
+  const endTime = performance.now();
+  const originalSize = data.length;
+  const compressedSize = compressed.length;
+
+  return {
+    originalSize,
+    compressedSize,
+    compressionRatio: compressionRatio(originalSize, compressedSize),
+    processingTime: endTime - startTime,
+    algorithm: 'LZW',
+    algorithmId: 'lzw',
+    parameters: { minCodeBits, maxCodeBits },
+    compressedData: compressed,
     originalData: data
   };
 }
 
-export function decompressData(compressedData: string, algorithm: string): string {
-  switch (algorithm) {
-    case 'Run-Length Encoding':
-      return rleDecompress(compressedData);
-    case 'LZ77':
-      return lz77Decompress(compressedData);
-    case 'Huffman Coding':
-      // Huffman decompression would require the code table
-      return 'Huffman decompression requires the original code table';
-    default:
-      throw new Error(`Unsupported algorithm: ${algorithm}`);
+// Adaptive range coder (see rangeCoder.ts for the payload layout)
+export function rangeCompressor(order: ContextOrder) {
+  return (data: Uint8Array, onProgress?: (progress: ProcessingProgress) => void): CompressionResult => {
+    const startTime = performance.now();
+
+    onProgress?.({ stage: 'Initializing', progress: 10, message: `Setting up order-${order} context model...` });
+
+    const compressed = rangeEncode(data, {
+      order,
+      onProgress: fraction => onProgress?.({
+        stage: 'Encoding',
+        progress: 10 + fraction * 80,
+        message: `Range coding byte ${Math.round(fraction * data.length)}/${data.length}...`
+      })
+    });
+
+    onProgress?.({ stage: 'Complete', progress: 100, message: 'Range coding complete!' });
+
+    const endTime = performance.now();
+    const originalSize = data.length;
+    const compressedSize = compressed.length;
+
+    return {
+      originalSize,
+      compressedSize,
+      compressionRatio: compressionRatio(originalSize, compressedSize),
+      processingTime: endTime - startTime,
+      algorithm: `Range Coder (order-${order})`,
+      algorithmId: order === 0 ? 'range' : 'range-o1',
+      parameters: { order },
+      compressedData: compressed,
+      originalData: data
+    };
+  };
+}
+
+// Block-sorting compressor (see bwt.ts for the payload layout)
+export function bwtCompress(
+  data: Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void,
+  blockSize = BWT_DEFAULT_BLOCK_SIZE
+): CompressionResult {
+  const startTime = performance.now();
+  const blockCount = Math.ceil(data.length / blockSize);
+
+  onProgress?.({ stage: 'Initializing', progress: 10, message: `Splitting into ${blockCount} sort blocks...` });
+
+  const compressed = bwtEncode(data, {
+    blockSize,
+    onProgress: fraction => onProgress?.({
+      stage: 'Sorting',
+      progress: 10 + fraction * 80,
+      message: `Transformed block ${Math.round(fraction * blockCount)}/${blockCount}...`
+    })
+  });
+
+  onProgress?.({ stage: 'Complete', progress: 100, message: 'Block-sorting compression complete!' });
+
+  const endTime = performance.now();
+  const originalSize = data.length;
+  const compressedSize = compressed.length;
+
+  return {
+    originalSize,
+    compressedSize,
+    compressionRatio: compressionRatio(originalSize, compressedSize),
+    processingTime: endTime - startTime,
+    algorithm: 'BWT + MTF',
+    algorithmId: 'bwt',
+    parameters: { blockSize },
+    compressedData: compressed,
+    originalData: data
+  };
+}
+
+// LZ4 Implementation
+//
+// Payload: a complete LZ4 frame (see lz4.ts), so it downloads unchanged as a
+// .lz4 file.
+export function lz4Compress(
+  data: Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void,
+  blockSizeId = LZ4_DEFAULT_BLOCK_SIZE_ID
+): CompressionResult {
+  const startTime = performance.now();
+
+  onProgress?.({ stage: 'Initializing', progress: 10, message: 'Setting up LZ4 hash table...' });
+
+  const compressed = lz4CompressFrame(data, {
+    blockSizeId,
+    onProgress: fraction => onProgress?.({
+      stage: 'Compressing',
+      progress: 10 + fraction * 80,
+      message: `Processing position ${Math.round(fraction * data.length)}/${data.length}...`
+    })
+  });
+
+  onProgress?.({ stage: 'Complete', progress: 100, message: 'LZ4 compression complete!' });
+
+  const endTime = performance.now();
+  const originalSize = data.length;
+  const compressedSize = compressed.length;
+
+  return {
+    originalSize,
+    compressedSize,
+    compressionRatio: compressionRatio(originalSize, compressedSize),
+    processingTime: endTime - startTime,
+    algorithm: 'LZ4',
+    algorithmId: 'lz4',
+    parameters: { blockSizeId, maxOffset: 65535 },
+    compressedData: compressed,
+    originalData: data
+  };
+}
+
+// Browser-native baselines
+//
+// Payload: the platform CompressionStream output for the format, unchanged.
+export function nativeCompressor(algorithm: CompressionAlgorithm, format: CompressionFormat, name: string) {
+  return async (data: Uint8Array, onProgress?: (progress: ProcessingProgress) => void): Promise<CompressionResult> => {
+    const startTime = performance.now();
+
+    onProgress?.({ stage: 'Initializing', progress: 10, message: `Opening a ${format} CompressionStream...` });
+
+    const compressed = await nativeCompress(format, data, fraction => onProgress?.({
+      stage: 'Compressing',
+      progress: 10 + fraction * 80,
+      message: `Streamed ${Math.round(fraction * data.length)}/${data.length} bytes...`
+    }));
+
+    onProgress?.({ stage: 'Complete', progress: 100, message: 'Native compression complete!' });
+
+    const endTime = performance.now();
+    const originalSize = data.length;
+    const compressedSize = compressed.length;
+
+    return {
+      originalSize,
+      compressedSize,
+      compressionRatio: compressionRatio(originalSize, compressedSize),
+      processingTime: endTime - startTime,
+      algorithm: name,
+      algorithmId: algorithm,
+      parameters: { format },
+      compressedData: compressed,
+      originalData: data
+    };
+  };
+}
+
+export async function compressData(
+  algorithm: CompressionAlgorithm,
+  data: Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void,
+  options?: AlgorithmParameters
+): Promise<CompressionResult> {
+  const codec = getCodec(algorithm);
+  const result = await codec.compress(data, onProgress, resolveCodecOptions(codec, options));
+  return { ...result, entropy: shannonEntropy(byteHistogram(data)) };
+}
+
+// Decodes a single codec payload, without any archive framing
+export async function decompressPayload(algorithm: CompressionAlgorithm, payload: Uint8Array): Promise<Uint8Array> {
+  return getCodec(algorithm).decompress(payload);
+}
+
+// Packages a compression result for download: in its standard format where
+// there is one, otherwise in the portal archive container
+export function createArchive(result: CompressionResult, fileName: string): { archive: Uint8Array; archiveName: string } {
+  if (!result.compressedData || !result.originalData) {
+    throw new Error('Block-streamed results are written by the streaming compressor');
+  }
+
+  const standard = downloadFormatFor(result.algorithmId, result.parameters);
+  if (standard) {
+    return {
+      archive: standard.wrap(result.compressedData, result.originalData, fileName),
+      archiveName: `${fileName}${standard.extensions[0]}`
+    };
+  }
+
+  const archive = writeArchive(
+    {
+      algorithm: result.algorithmId,
+      blocked: false,
+      fileName,
+      originalSize: result.originalSize,
+      crc32: crc32(result.originalData),
+      parameters: result.parameters
+    },
+    result.compressedData
+  );
+  return { archive, archiveName: `${fileName}${ARCHIVE_EXTENSION}` };
+}
+
+export async function decompressData(archive: Uint8Array): Promise<DecompressionResult> {
+  const { header, payload } = readArchive(archive);
+  let data: Uint8Array;
+
+  if (header.blocked) {
+    data = new Uint8Array(header.originalSize);
+    let offset = 0;
+    for (const block of readBlockFrames(payload)) {
+      const decoded = await decompressPayload(header.algorithm, block.payload);
+      if (decoded.length !== block.originalLength || offset + decoded.length > data.length) {
+        throw new Error('Archive block decoded to an unexpected length');
+      }
+      data.set(decoded, offset);
+      offset += decoded.length;
+    }
+  } else {
+    data = await decompressPayload(header.algorithm, payload);
+  }
+
+  return {
+    header,
+    data,
+    checksumValid: data.length === header.originalSize && crc32(data) === header.crc32
+  };
+}
+
+export function rleDecompress(compressed: Uint8Array): Uint8Array {
+  const decompressed = new ByteWriter(compressed.length * 2);
+  let i = 0;
+  
+  while (i < compressed.length) {
+    const control = compressed[i++];
+    if (control < 128) {
+      const length = control + 1;
+      if (i + length > compressed.length) {
+        throw new Error('RLE literal run is truncated');
+      }
+      decompressed.writeBytes(compressed.subarray(i, i + length));
+      i += length;
+    } else if (control > 128) {
+      if (i >= compressed.length) {
+        throw new Error('RLE run is missing its byte');
+      }
+      const byte = compressed[i++];
+      for (let j = 257 - control; j > 0; j--) {
+        decompressed.writeUint8(byte);
+      }
+    }
   }
+  
+  return decompressed.toUint8Array();
 }
 
-function rleDecompress(compressed: string): string {
-  let decompressed = '';
+// The original RLE wrote counts as ASCII digits, so input containing digits
+// did not round-trip. Only the decoder is kept, for archives written with it.
+const ASCII_DIGIT_ZERO = 0x30;
+
+function isAsciiDigit(byte: number): boolean {
+  return byte >= ASCII_DIGIT_ZERO && byte <= ASCII_DIGIT_ZERO + 9;
+}
+
+export function rleLegacyDecompress(compressed: Uint8Array): Uint8Array {
+  const decompressed = new ByteWriter(compressed.length * 2);
   let i = 0;
   
   while (i < compressed.length) {
-    if (/\d/.test(compressed[i])) {
-      let numStr = '';
-      while (i < compressed.length && /\d/.test(compressed[i])) {
-        numStr += compressed[i];
+    if (isAsciiDigit(compressed[i])) {
+      let count = 0;
+      while (i < compressed.length && isAsciiDigit(compressed[i])) {
+        count = count * 10 + (compressed[i] - ASCII_DIGIT_ZERO);
         i++;
       }
-      const count = parseInt(numStr);
-      const char = compressed[i];
-      decompressed += char.repeat(count);
+      const byte = compressed[i];
+      for (let j = 0; j < count; j++) {
+        decompressed.writeUint8(byte);
+      }
       i++;
     } else {
-      decompressed += compressed[i];
+      decompressed.writeUint8(compressed[i]);
       i++;
     }
   }
   
-  return decompressed;
+  return decompressed.toUint8Array();
 }
 
-function lz77Decompress(compressed: string): string {
-  const tokens = JSON.parse(compressed);
-  let decompressed = '';
+/** Decodes an LZ77 payload, reporting every token before it is applied */
+export function lz77Decompress(compressed: Uint8Array, onToken?: (token: Lz77Token) => void): Uint8Array {
+  const reader = new ByteReader(compressed);
+  const originalLength = reader.readVarint();
+  const offsetBits = reader.readUint8();
+  const lengthBits = reader.readUint8();
+  const minMatch = reader.readUint8();
+  const bits = new BitReader(compressed, reader.offset);
+  const output = new Uint8Array(originalLength);
+  let position = 0;
+  
+  while (position < originalLength) {
+    if (bits.readBit()) {
+      const offset = bits.readBits(offsetBits) + 1;
+      const length = bits.readBits(lengthBits) + minMatch;
+      if (offset > position || position + length > originalLength) {
+        throw new Error('Invalid LZ77 match in compressed data');
+      }
+      onToken?.({ type: 'match', position, offset, length });
+      // Byte-by-byte copy so overlapping matches repeat correctly
+      for (let i = 0; i < length; i++) {
+        output[position] = output[position - offset];
+        position++;
+      }
+    } else {
+      const byte = bits.readBits(8);
+      onToken?.({ type: 'literal', position, byte });
+      output[position++] = byte;
+    }
+  }
+  
+  return output;
+}
+
+// The original LZ77 payload was a JSON array of (offset, length, next) triplets.
+// The first archives held text and stored `nextChar`; later ones `nextByte`,
+// -1 when a match ended the input. Only the decoder is kept, for archives written with it.
+interface Lz77LegacyToken {
+  offset: number;
+  length: number;
+  nextChar?: string;
+  nextByte?: number;
+}
+
+export function lz77LegacyDecompress(compressed: Uint8Array): Uint8Array {
+  const tokens: Lz77LegacyToken[] = JSON.parse(new TextDecoder().decode(compressed));
+  if (!Array.isArray(tokens)) {
+    throw new Error('Invalid legacy LZ77 data');
+  }
+  // Text-era offsets count characters, so those archives are rebuilt as a string first
+  const isText = tokens.some(token => token.nextChar !== undefined);
+  const output: (number | string)[] = [];
   
   for (const token of tokens) {
     if (token.length > 0) {
-      const start = decompressed.length - token.offset;
+      const start = output.length - token.offset;
+      if (start < 0) {
+        throw new Error('Invalid LZ77 match in compressed data');
+      }
       for (let i = 0; i < token.length; i++) {
-        decompressed += decompressed[start + i];
+        output.push(output[start + i]);
       }
     }
-    if (token.nextChar) {
-      decompressed += token.nextChar;
+    if (isText ? token.nextChar : token.nextByte !== undefined && token.nextByte >= 0) {
+      output.push(isText ? token.nextChar! : token.nextByte!);
     }
   }
   
-  return decompressed;
-}
\ No newline at end of file
+  return isText ? new TextEncoder().encode(output.join('')) : Uint8Array.from(output as number[]);
+}
@@ -0,0 +1,141 @@
+import { HistoryEntry, NewHistoryEntry } from '../types';
+
+const DB_NAME = 'compression-portal';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'history';
+const SETTINGS_STORE = 'settings';
+const QUOTA_KEY = 'historyQuota';
+
+export const DEFAULT_HISTORY_QUOTA = 100 * 1024 * 1024;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted'));
+  });
+}
+
+/** The uncompressed bytes a history entry can be compressed again from, if it kept them */
+export function historyEntrySource(entry: HistoryEntry): Blob | null {
+  return entry.kind === 'decompress' ? entry.output : entry.original;
+}
+
+// Oldest first: the order entries are evicted in
+function oldestFirst(entries: HistoryEntry[]): HistoryEntry[] {
+  return [...entries].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Past jobs and their outputs, kept in IndexedDB so they survive a reload.
+ * The blobs all entries hold together stay within a quota: adding an entry
+ * or lowering the quota evicts the oldest entries until everything fits.
+ */
+export class CompressionHistory {
+  private database: Promise<IDBDatabase> | null = null;
+
+  /** Newest first */
+  async list(): Promise<HistoryEntry[]> {
+    const db = await this.open();
+    const entries = await requestResult(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll() as IDBRequest<HistoryEntry[]>);
+    return oldestFirst(entries).reverse();
+  }
+
+  async getQuota(): Promise<number> {
+    const db = await this.open();
+    const quota = await requestResult(db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(QUOTA_KEY));
+    return typeof quota === 'number' ? quota : DEFAULT_HISTORY_QUOTA;
+  }
+
+  async setQuota(quota: number) {
+    if (!Number.isFinite(quota) || quota <= 0) throw new Error('History quota must be a positive number of bytes');
+    const db = await this.open();
+    const victims = this.pickVictims(await this.list(), quota);
+
+    const transaction = db.transaction([ENTRY_STORE, SETTINGS_STORE], 'readwrite');
+    const entryStore = transaction.objectStore(ENTRY_STORE);
+    victims.forEach(entry => entryStore.delete(entry.id));
+    transaction.objectStore(SETTINGS_STORE).put(quota, QUOTA_KEY);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Stores a finished job, evicting older entries to make room. The original
+   * is dropped when the entry would not fit with it; returns null, storing
+   * nothing, when the output alone is larger than the quota.
+   */
+  async add(entry: NewHistoryEntry): Promise<HistoryEntry | null> {
+    const quota = await this.getQuota();
+    let record = { ...entry, storedBytes: entry.output.size + (entry.original?.size ?? 0) };
+    if (record.storedBytes > quota && record.original) {
+      record = { ...record, original: null, storedBytes: entry.output.size };
+    }
+    if (record.storedBytes > quota) return null;
+
+    const db = await this.open();
+    const victims = this.pickVictims(await this.list(), quota - record.storedBytes);
+
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    const store = transaction.objectStore(ENTRY_STORE);
+    victims.forEach(victim => store.delete(victim.id));
+    const key = store.add(record);
+    await transactionDone(transaction);
+    return { ...record, id: key.result as number };
+  }
+
+  async remove(id: number) {
+    const db = await this.open();
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    transaction.objectStore(ENTRY_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async clear() {
+    const db = await this.open();
+    const transaction = db.transaction(ENTRY_STORE, 'readwrite');
+    transaction.objectStore(ENTRY_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  // The oldest entries to delete so the rest fit in `budget` bytes
+  private pickVictims(entries: HistoryEntry[], budget: number): HistoryEntry[] {
+    let total = entries.reduce((sum, entry) => sum + entry.storedBytes, 0);
+    const victims: HistoryEntry[] = [];
+    for (const entry of oldestFirst(entries)) {
+      if (total <= budget) break;
+      victims.push(entry);
+      total -= entry.storedBytes;
+    }
+    return victims;
+  }
+
+  // Opened on first use, so constructing one costs nothing where IndexedDB is unavailable
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'id', autoIncrement: true });
+          db.createObjectStore(SETTINGS_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error('Could not open the history database'));
+      });
+      // Let a later call try again rather than caching the failure
+      this.database.catch(() => { this.database = null; });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,4 @@
+/** Space saved as a percentage of the original; 0 for an empty input rather than NaN */
+export function compressionRatio(originalSize: number, compressedSize: number): number {
+  return originalSize > 0 ? ((originalSize - compressedSize) / originalSize) * 100 : 0;
+}
@@ -0,0 +1,196 @@
+import {
+  AlgorithmParameters,
+  BenchmarkConfig,
+  BenchmarkRow,
+  ComparisonEntry,
+  CompressionAlgorithm,
+  CompressionResult,
+  CompressionWorkerRequest,
+  CompressionWorkerResponse,
+  DataAnalysis,
+  ProcessingProgress,
+  RestoredFile,
+  ZipEntry,
+  ZipInputFile,
+  ZipMethod
+} from '../types';
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface WorkerJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export interface CompressionJobOutput {
+  result: CompressionResult;
+  archive: Blob;
+  /** Download name, with the extension of the container the archive uses */
+  archiveName: string;
+}
+
+export interface ComparisonJobOutput {
+  entries: ComparisonEntry[];
+  /** Statistics of the compared input, the bound every entry is measured against */
+  analysis: DataAnalysis;
+}
+
+// Every job gets its own worker, so cancelling is just terminating it
+function runWorkerJob<T>(
+  request: CompressionWorkerRequest,
+  transfer: Transferable[],
+  pickResult: (response: CompressionWorkerResponse) => T | undefined,
+  onProgress?: (progress: ProcessingProgress) => void
+): WorkerJob<T> {
+  const worker = new Worker(new URL('../workers/compression.worker.ts', import.meta.url), { type: 'module' });
+  let settled = false;
+  let rejectJob: (error: Error) => void = () => {};
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (event: MessageEvent<CompressionWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+
+      settled = true;
+      worker.terminate();
+      if (response.type === 'error') {
+        reject(new Error(response.message));
+        return;
+      }
+
+      const result = pickResult(response);
+      if (result === undefined) {
+        reject(new Error(`Unexpected worker response: ${response.type}`));
+      } else {
+        resolve(result);
+      }
+    };
+
+    worker.onerror = (event) => {
+      settled = true;
+      worker.terminate();
+      reject(new Error(event.message || 'Compression worker crashed'));
+    };
+  });
+
+  worker.postMessage(request, transfer);
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      rejectJob(new JobCancelledError());
+    }
+  };
+}
+
+export function startCompressionJob(
+  algorithm: CompressionAlgorithm,
+  options: AlgorithmParameters,
+  data: ArrayBuffer,
+  fileName: string,
+  onProgress?: (progress: ProcessingProgress) => void
+): WorkerJob<CompressionJobOutput> {
+  // Send a copy so the caller keeps its file bytes
+  const copy = data.slice(0);
+  return runWorkerJob(
+    { type: 'compress', algorithm, options, fileName, data: copy },
+    [copy],
+    response => response.type === 'compressed' ? { result: response.result, archive: response.archive, archiveName: response.archiveName } : undefined,
+    onProgress
+  );
+}
+
+export function startBlockCompressionJob(
+  algorithm: CompressionAlgorithm,
+  options: AlgorithmParameters,
+  file: Blob,
+  fileName: string,
+  blockSize: number,
+  onProgress?: (progress: ProcessingProgress) => void
+): WorkerJob<CompressionJobOutput> {
+  return runWorkerJob(
+    { type: 'compress-blocks', algorithm, options, fileName, file, blockSize },
+    [],
+    response => response.type === 'compressed' ? { result: response.result, archive: response.archive, archiveName: response.archiveName } : undefined,
+    onProgress
+  );
+}
+
+export function startDecompressionJob(
+  archive: Blob,
+  fileName: string,
+  onProgress?: (progress: ProcessingProgress) => void
+): WorkerJob<RestoredFile> {
+  return runWorkerJob(
+    { type: 'decompress', archive, fileName },
+    [],
+    response => response.type === 'decompressed' ? response.result : undefined,
+    onProgress
+  );
+}
+
+export function startComparisonJob(
+  data: ArrayBuffer,
+  fileName: string,
+  onProgress?: (progress: ProcessingProgress) => void
+): WorkerJob<ComparisonJobOutput> {
+  const copy = data.slice(0);
+  return runWorkerJob(
+    { type: 'compare', fileName, data: copy },
+    [copy],
+    response => response.type === 'compared' ? { entries: response.entries, analysis: response.analysis } : undefined,
+    onProgress
+  );
+}
+
+export function startZipJob(
+  files: ZipInputFile[],
+  method: ZipMethod,
+  archiveName: string,
+  onProgress?: (progress: ProcessingProgress) => void
+): WorkerJob<CompressionJobOutput> {
+  return runWorkerJob(
+    { type: 'zip', files, method, archiveName },
+    [],
+    response => response.type === 'compressed' ? { result: response.result, archive: response.archive, archiveName: response.archiveName } : undefined,
+    onProgress
+  );
+}
+
+export function startZipExtractJob(
+  archive: Blob,
+  entry: ZipEntry,
+  onProgress?: (progress: ProcessingProgress) => void
+): WorkerJob<Blob> {
+  return runWorkerJob(
+    { type: 'unzip-entry', archive, entry },
+    [],
+    response => response.type === 'unzipped' ? response.data : undefined,
+    onProgress
+  );
+}
+
+export function startBenchmarkJob(
+  config: BenchmarkConfig,
+  onProgress?: (progress: ProcessingProgress) => void
+): WorkerJob<BenchmarkRow[]> {
+  return runWorkerJob(
+    { type: 'benchmark', config },
+    [],
+    response => response.type === 'benchmarked' ? response.rows : undefined,
+    onProgress
+  );
+}
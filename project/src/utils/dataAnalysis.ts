@@ -0,0 +1,140 @@
+import { DataAnalysis, RepeatDistanceBucket } from '../types';
+import { byteHistogram, shannonEntropy } from './entropy';
+
+// Runs at least this long are what RLE-style coders can exploit
+const LONG_RUN = 4;
+// Repeats are found by exact 4-byte strings, the shortest match LZ4 and most LZ77 variants emit
+const REPEAT_HASH_BITS = 16;
+
+// Upper bounds match the windows of the codecs in this app: LZ77 4 KB, DEFLATE 32 KB, LZ4 64 KB
+const REPEAT_BUCKETS: Omit<RepeatDistanceBucket, 'count'>[] = [
+  { label: '≤ 64 B', maxDistance: 64 },
+  { label: '≤ 1 KB', maxDistance: 1024 },
+  { label: '≤ 4 KB', maxDistance: 4096 },
+  { label: '≤ 32 KB', maxDistance: 32768 },
+  { label: '≤ 64 KB', maxDistance: 65536 },
+  { label: 'farther', maxDistance: Infinity }
+];
+
+/**
+ * Gathers byte statistics over data fed in any number of blocks, so block
+ * streamed files are analysed without ever holding them whole. Runs and
+ * repeats that straddle two blocks are counted as if the input were one piece.
+ */
+export class DataAnalyzer {
+  private readonly histogram = new Float64Array(256);
+  // Counts of each byte given the one before it, indexed previous * 256 + current
+  private readonly pairs = new Float64Array(256 * 256);
+  private readonly repeatKeys = new Uint32Array(1 << REPEAT_HASH_BITS);
+  private readonly repeatPositions = new Float64Array(1 << REPEAT_HASH_BITS).fill(-1);
+  private readonly repeatCounts = new Float64Array(REPEAT_BUCKETS.length);
+  private size = 0;
+  private previous = -1;
+  private window = 0;
+  private runLength = 0;
+  private runCount = 0;
+  private longestRun = 0;
+  private longestRunByte = 0;
+  private bytesInLongRuns = 0;
+
+  update(data: Uint8Array) {
+    byteHistogram(data, this.histogram);
+
+    for (let i = 0; i < data.length; i++) {
+      const byte = data[i];
+      const position = this.size + i;
+
+      if (this.previous >= 0) this.pairs[this.previous * 256 + byte]++;
+
+      if (byte === this.previous) {
+        this.runLength++;
+      } else {
+        this.endRun();
+        this.runLength = 1;
+      }
+      this.previous = byte;
+
+      // The 4-byte string ending here; a bucket only matches when the stored key is identical
+      this.window = ((this.window << 8) | byte) >>> 0;
+      if (position >= 3) {
+        const bucket = Math.imul(this.window, 2654435761) >>> (32 - REPEAT_HASH_BITS);
+        const start = position - 3;
+        const last = this.repeatPositions[bucket];
+        if (last >= 0 && this.repeatKeys[bucket] === this.window) {
+          const distance = start - last;
+          let index = 0;
+          while (distance > REPEAT_BUCKETS[index].maxDistance) index++;
+          this.repeatCounts[index]++;
+        }
+        this.repeatKeys[bucket] = this.window;
+        this.repeatPositions[bucket] = start;
+      }
+    }
+
+    this.size += data.length;
+  }
+
+  finish(): DataAnalysis {
+    this.endRun();
+    this.runLength = 0;
+
+    let distinctBytes = 0;
+    for (const count of this.histogram) if (count > 0) distinctBytes++;
+
+    // Order-1 entropy: the entropy of each context weighted by how often it occurs
+    let pairTotal = 0;
+    let conditional = 0;
+    for (let context = 0; context < 256; context++) {
+      const row = this.pairs.subarray(context * 256, context * 256 + 256);
+      let rowTotal = 0;
+      for (const count of row) rowTotal += count;
+      if (rowTotal === 0) continue;
+      pairTotal += rowTotal;
+      conditional += rowTotal * shannonEntropy(row);
+    }
+
+    const entropy0 = shannonEntropy(this.histogram);
+    const entropy1 = pairTotal > 0 ? conditional / pairTotal : entropy0;
+    const repeated = this.repeatCounts.reduce((total, count) => total + count, 0);
+    const positions = Math.max(this.size - 3, 0);
+
+    return {
+      size: this.size,
+      histogram: Array.from(this.histogram),
+      distinctBytes,
+      entropy0,
+      entropy1,
+      order0Bound: Math.ceil((entropy0 * this.size) / 8),
+      // The first byte has no context, so it is charged at the order-0 rate
+      order1Bound: this.size > 0 ? Math.ceil((entropy0 + entropy1 * (this.size - 1)) / 8) : 0,
+      runs: {
+        count: this.runCount,
+        meanLength: this.runCount > 0 ? this.size / this.runCount : 0,
+        longest: this.longestRun,
+        longestByte: this.longestRunByte,
+        bytesInLongRuns: this.bytesInLongRuns
+      },
+      repeats: {
+        coverage: positions > 0 ? repeated / positions : 0,
+        buckets: REPEAT_BUCKETS.map((bucket, index) => ({ ...bucket, count: this.repeatCounts[index] }))
+      }
+    };
+  }
+
+  private endRun() {
+    if (this.runLength === 0) return;
+    this.runCount++;
+    if (this.runLength >= LONG_RUN) this.bytesInLongRuns += this.runLength;
+    if (this.runLength > this.longestRun) {
+      this.longestRun = this.runLength;
+      this.longestRunByte = this.previous;
+    }
+  }
+}
+
+/** Analyses a buffer held in memory in one pass */
+export function analyzeData(data: Uint8Array): DataAnalysis {
+  const analyzer = new DataAnalyzer();
+  analyzer.update(data);
+  return analyzer.finish();
+}
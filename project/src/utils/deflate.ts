@@ -0,0 +1,702 @@
+import { LsbBitReader, LsbBitWriter } from './bitStream';
+import { HashChainMatchFinder } from './lz77MatchFinder';
+import { crc32 } from './crc32';
+import { adler32 } from './adler32';
+
+// DEFLATE (RFC 1951) encoder and inflater, plus gzip (RFC 1952) and zlib
+// (RFC 1950) framing.
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CODE_BITS = 15;
+const MAX_CODE_LENGTH_BITS = 7;
+const END_OF_BLOCK = 256;
+/** Stop searching for a longer match at the next byte once a match is this long */
+const LAZY_MATCH_LIMIT = 32;
+/** Tokens per block; each block gets its own Huffman tables */
+const BLOCK_TOKENS = 16384;
+const MAX_STORED_BLOCK = 65535;
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+// Length (3..258) -> index into LENGTH_BASE
+const LENGTH_CODE_INDEX = (() => {
+  const table = new Uint8Array(MAX_MATCH + 1);
+  for (let code = 0; code < LENGTH_BASE.length; code++) {
+    const end = code + 1 < LENGTH_BASE.length ? LENGTH_BASE[code + 1] : MAX_MATCH + 1;
+    for (let length = LENGTH_BASE[code]; length < end; length++) table[length] = code;
+  }
+  table[MAX_MATCH] = LENGTH_BASE.length - 1;
+  return table;
+})();
+
+function distanceCodeIndex(distance: number): number {
+  let code = DISTANCE_BASE.length - 1;
+  while (DISTANCE_BASE[code] > distance) code--;
+  return code;
+}
+
+const FIXED_LITERAL_LENGTHS = Array.from({ length: 288 }, (_, symbol) =>
+  symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8
+);
+const FIXED_DISTANCE_LENGTHS = new Array(30).fill(5);
+
+// Huffman code construction
+
+interface HeapNode {
+  freq: number;
+  symbol: number;
+  left?: HeapNode;
+  right?: HeapNode;
+}
+
+/** Optimal code lengths for the given frequencies, limited to `maxBits` */
+function buildCodeLengths(freqs: ArrayLike<number>, maxBits: number): number[] {
+  const lengths = new Array<number>(freqs.length).fill(0);
+  const leaves: HeapNode[] = [];
+  for (let symbol = 0; symbol < freqs.length; symbol++) {
+    if (freqs[symbol] > 0) leaves.push({ freq: freqs[symbol], symbol });
+  }
+  if (leaves.length === 0) return lengths;
+  if (leaves.length === 1) {
+    lengths[leaves[0].symbol] = 1;
+    return lengths;
+  }
+
+  // Two-queue Huffman construction over leaves sorted by frequency
+  leaves.sort((a, b) => a.freq - b.freq || a.symbol - b.symbol);
+  const merged: HeapNode[] = [];
+  let leafIndex = 0;
+  let mergedIndex = 0;
+  const takeSmallest = (): HeapNode => {
+    if (mergedIndex >= merged.length || (leafIndex < leaves.length && leaves[leafIndex].freq <= merged[mergedIndex].freq)) {
+      return leaves[leafIndex++];
+    }
+    return merged[mergedIndex++];
+  };
+  for (let i = 1; i < leaves.length; i++) {
+    const left = takeSmallest();
+    const right = takeSmallest();
+    merged.push({ freq: left.freq + right.freq, symbol: -1, left, right });
+  }
+
+  const stack: Array<[HeapNode, number]> = [[merged[merged.length - 1], 0]];
+  while (stack.length > 0) {
+    const [node, depth] = stack.pop()!;
+    if (node.left && node.right) {
+      stack.push([node.left, depth + 1], [node.right, depth + 1]);
+    } else {
+      lengths[node.symbol] = depth;
+    }
+  }
+
+  // Clamp to maxBits, then lengthen the deepest codes that still have room
+  // until the Kraft inequality holds again.
+  const capacity = 1 << maxBits;
+  let kraft = 0;
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] > maxBits) lengths[symbol] = maxBits;
+    if (lengths[symbol] > 0) kraft += 1 << (maxBits - lengths[symbol]);
+  }
+  while (kraft > capacity) {
+    let candidate = -1;
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+      if (lengths[symbol] > 0 && lengths[symbol] < maxBits && (candidate < 0 || lengths[symbol] > lengths[candidate])) {
+        candidate = symbol;
+      }
+    }
+    kraft -= 1 << (maxBits - lengths[candidate] - 1);
+    lengths[candidate]++;
+  }
+
+  return lengths;
+}
+
+function reverseBits(value: number, length: number): number {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | ((value >>> i) & 1);
+  }
+  return reversed;
+}
+
+/** Canonical codes (RFC 1951, 3.2.2), bit-reversed for LSB-first output */
+function buildEncodeCodes(lengths: ArrayLike<number>): Uint16Array {
+  const counts = new Array<number>(MAX_CODE_BITS + 1).fill(0);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const nextCode = new Array<number>(MAX_CODE_BITS + 1).fill(0);
+  let code = 0;
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+    code = (code + counts[bits - 1]) << 1;
+    nextCode[bits] = code;
+  }
+
+  const codes = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length > 0) codes[symbol] = reverseBits(nextCode[length]++, length);
+  }
+  return codes;
+}
+
+interface DecodeTable {
+  /** Indexed by the next `maxBits` input bits: (symbol << 4) | length, or -1 */
+  entries: Int32Array;
+  maxBits: number;
+}
+
+function buildDecodeTable(lengths: ArrayLike<number>): DecodeTable {
+  let maxBits = 0;
+  for (let i = 0; i < lengths.length; i++) maxBits = Math.max(maxBits, lengths[i]);
+  const entries = new Int32Array(1 << Math.max(1, maxBits)).fill(-1);
+  if (maxBits === 0) return { entries, maxBits: 1 };
+
+  const counts = new Array<number>(MAX_CODE_BITS + 1).fill(0);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  let left = 1;
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+    left = (left << 1) - counts[bits];
+    if (left < 0) throw new Error('Invalid DEFLATE data: over-subscribed Huffman code');
+  }
+
+  const codes = buildEncodeCodes(lengths);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol];
+    if (length === 0) continue;
+    for (let index = codes[symbol]; index < entries.length; index += 1 << length) {
+      entries[index] = (symbol << 4) | length;
+    }
+  }
+  return { entries, maxBits };
+}
+
+function decodeSymbol(reader: LsbBitReader, table: DecodeTable): number {
+  const entry = table.entries[reader.peekBits(table.maxBits)];
+  if (entry < 0) throw new Error('Invalid DEFLATE data: bad Huffman code');
+  reader.skipBits(entry & 15);
+  return entry >>> 4;
+}
+
+// Encoder
+
+export interface DeflateOptions {
+  /** Hash chain candidates examined per position; higher is slower but smaller */
+  maxChainDepth?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+interface Block {
+  /** Literal byte (0-255) or match length (3-258), paired with a distance (0 for literals) */
+  values: Uint16Array;
+  distances: Uint16Array;
+  count: number;
+  start: number;
+  end: number;
+}
+
+function runLengthCodeLengths(lengths: number[]): Array<[number, number]> {
+  // Code length alphabet: 0-15 literal lengths, 16 repeat previous 3-6 times,
+  // 17 repeat zero 3-10 times, 18 repeat zero 11-138 times
+  const symbols: Array<[number, number]> = [];
+  let i = 0;
+  while (i < lengths.length) {
+    const length = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === length) run++;
+
+    if (length === 0 && run >= 3) {
+      let remaining = run;
+      while (remaining >= 11) {
+        const count = Math.min(remaining, 138);
+        symbols.push([18, count - 11]);
+        remaining -= count;
+      }
+      if (remaining >= 3) {
+        symbols.push([17, remaining - 3]);
+        remaining = 0;
+      }
+      for (; remaining > 0; remaining--) symbols.push([0, 0]);
+    } else if (length !== 0 && run >= 4) {
+      symbols.push([length, 0]);
+      let remaining = run - 1;
+      while (remaining >= 3) {
+        const count = Math.min(remaining, 6);
+        symbols.push([16, count - 3]);
+        remaining -= count;
+      }
+      for (; remaining > 0; remaining--) symbols.push([length, 0]);
+    } else {
+      for (let j = 0; j < run; j++) symbols.push([length, 0]);
+    }
+    i += run;
+  }
+  return symbols;
+}
+
+function ensureTwoCodes(lengths: number[]) {
+  // Single-code tables are legal but some inflaters reject them; pad to two
+  let used = lengths.filter(length => length > 0).length;
+  for (let symbol = 0; used < 2 && symbol < lengths.length; symbol++) {
+    if (lengths[symbol] === 0) {
+      lengths[symbol] = 1;
+      used++;
+    }
+  }
+  if (used === 2) {
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+      if (lengths[symbol] > 0) lengths[symbol] = 1;
+    }
+  }
+}
+
+function tokenCost(block: Block, literalLengths: ArrayLike<number>, distanceLengths: ArrayLike<number>): number {
+  let bits = 0;
+  for (let i = 0; i < block.count; i++) {
+    const distance = block.distances[i];
+    if (distance === 0) {
+      bits += literalLengths[block.values[i]];
+    } else {
+      const lengthCode = LENGTH_CODE_INDEX[block.values[i]];
+      const distanceCode = distanceCodeIndex(distance);
+      bits += literalLengths[257 + lengthCode] + LENGTH_EXTRA[lengthCode];
+      bits += distanceLengths[distanceCode] + DISTANCE_EXTRA[distanceCode];
+    }
+  }
+  return bits + literalLengths[END_OF_BLOCK];
+}
+
+function writeTokens(writer: LsbBitWriter, block: Block, literalLengths: ArrayLike<number>, distanceLengths: ArrayLike<number>) {
+  const literalCodes = buildEncodeCodes(literalLengths);
+  const distanceCodes = buildEncodeCodes(distanceLengths);
+
+  for (let i = 0; i < block.count; i++) {
+    const distance = block.distances[i];
+    const value = block.values[i];
+    if (distance === 0) {
+      writer.writeBits(literalCodes[value], literalLengths[value]);
+      continue;
+    }
+    const lengthCode = LENGTH_CODE_INDEX[value];
+    writer.writeBits(literalCodes[257 + lengthCode], literalLengths[257 + lengthCode]);
+    writer.writeBits(value - LENGTH_BASE[lengthCode], LENGTH_EXTRA[lengthCode]);
+    const distanceCode = distanceCodeIndex(distance);
+    writer.writeBits(distanceCodes[distanceCode], distanceLengths[distanceCode]);
+    writer.writeBits(distance - DISTANCE_BASE[distanceCode], DISTANCE_EXTRA[distanceCode]);
+  }
+  writer.writeBits(literalCodes[END_OF_BLOCK], literalLengths[END_OF_BLOCK]);
+}
+
+function writeBlock(writer: LsbBitWriter, data: Uint8Array, block: Block, isFinal: boolean) {
+  const literalFreqs = new Uint32Array(286);
+  const distanceFreqs = new Uint32Array(30);
+  for (let i = 0; i < block.count; i++) {
+    const distance = block.distances[i];
+    if (distance === 0) {
+      literalFreqs[block.values[i]]++;
+    } else {
+      literalFreqs[257 + LENGTH_CODE_INDEX[block.values[i]]]++;
+      distanceFreqs[distanceCodeIndex(distance)]++;
+    }
+  }
+  literalFreqs[END_OF_BLOCK] = 1;
+
+  // Dynamic Huffman tables
+  const literalLengths = buildCodeLengths(literalFreqs, MAX_CODE_BITS);
+  const distanceLengths = buildCodeLengths(distanceFreqs, MAX_CODE_BITS);
+  ensureTwoCodes(literalLengths);
+  ensureTwoCodes(distanceLengths);
+
+  let literalCount = 286;
+  while (literalCount > 257 && literalLengths[literalCount - 1] === 0) literalCount--;
+  let distanceCount = 30;
+  while (distanceCount > 1 && distanceLengths[distanceCount - 1] === 0) distanceCount--;
+
+  const codeLengthSymbols = runLengthCodeLengths([
+    ...literalLengths.slice(0, literalCount),
+    ...distanceLengths.slice(0, distanceCount)
+  ]);
+  const codeLengthFreqs = new Uint32Array(19);
+  for (const [symbol] of codeLengthSymbols) codeLengthFreqs[symbol]++;
+  const codeLengthLengths = buildCodeLengths(codeLengthFreqs, MAX_CODE_LENGTH_BITS);
+  let codeLengthCount = 19;
+  while (codeLengthCount > 4 && codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]] === 0) codeLengthCount--;
+
+  let dynamicCost = 3 + 5 + 5 + 4 + codeLengthCount * 3 + tokenCost(block, literalLengths, distanceLengths);
+  for (const [symbol] of codeLengthSymbols) {
+    dynamicCost += codeLengthLengths[symbol] + (symbol === 16 ? 2 : symbol === 17 ? 3 : symbol === 18 ? 7 : 0);
+  }
+  const fixedCost = 3 + tokenCost(block, FIXED_LITERAL_LENGTHS, FIXED_DISTANCE_LENGTHS);
+  const storedLength = block.end - block.start;
+  const storedCost = (Math.max(1, Math.ceil(storedLength / MAX_STORED_BLOCK)) * 5 + storedLength) * 8 + 7;
+
+  if (storedCost <= fixedCost && storedCost <= dynamicCost) {
+    let offset = block.start;
+    do {
+      const length = Math.min(MAX_STORED_BLOCK, block.end - offset);
+      const last = isFinal && offset + length >= block.end;
+      writer.writeBits(last ? 1 : 0, 1);
+      writer.writeBits(0, 2);
+      writer.alignToByte();
+      writer.writeBits(length, 16);
+      writer.writeBits(~length & 0xffff, 16);
+      writer.writeBytes(data.subarray(offset, offset + length));
+      offset += length;
+    } while (offset < block.end);
+    return;
+  }
+
+  writer.writeBits(isFinal ? 1 : 0, 1);
+  if (fixedCost <= dynamicCost) {
+    writer.writeBits(1, 2);
+    writeTokens(writer, block, FIXED_LITERAL_LENGTHS, FIXED_DISTANCE_LENGTHS);
+    return;
+  }
+
+  writer.writeBits(2, 2);
+  writer.writeBits(literalCount - 257, 5);
+  writer.writeBits(distanceCount - 1, 5);
+  writer.writeBits(codeLengthCount - 4, 4);
+  for (let i = 0; i < codeLengthCount; i++) {
+    writer.writeBits(codeLengthLengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+  const codeLengthCodes = buildEncodeCodes(codeLengthLengths);
+  for (const [symbol, extra] of codeLengthSymbols) {
+    writer.writeBits(codeLengthCodes[symbol], codeLengthLengths[symbol]);
+    if (symbol === 16) writer.writeBits(extra, 2);
+    else if (symbol === 17) writer.writeBits(extra, 3);
+    else if (symbol === 18) writer.writeBits(extra, 7);
+  }
+  writeTokens(writer, block, literalLengths, distanceLengths);
+}
+
+/** Compresses to a raw DEFLATE stream, choosing the cheapest block type per block */
+export function deflateRaw(data: Uint8Array, options: DeflateOptions = {}): Uint8Array {
+  const writer = new LsbBitWriter(Math.max(64, data.length >>> 1));
+  const finder = new HashChainMatchFinder(data, {
+    windowSize: WINDOW_SIZE,
+    maxMatchLength: MAX_MATCH,
+    maxChainDepth: options.maxChainDepth ?? 128
+  });
+
+  const newBlock = (start: number): Block => ({
+    values: new Uint16Array(BLOCK_TOKENS),
+    distances: new Uint16Array(BLOCK_TOKENS),
+    count: 0,
+    start,
+    end: start
+  });
+  let block = newBlock(0);
+  const reportInterval = Math.max(1, data.length >>> 6);
+  let nextReport = reportInterval;
+
+  const push = (value: number, distance: number, end: number) => {
+    block.values[block.count] = value;
+    block.distances[block.count] = distance;
+    block.count++;
+    block.end = end;
+    if (block.count === BLOCK_TOKENS) {
+      writeBlock(writer, data, block, false);
+      block = newBlock(end);
+    }
+  };
+
+  let i = 0;
+  while (i < data.length) {
+    let match = finder.findMatch(i);
+    finder.insert(i);
+
+    // Lazy matching: prefer a literal now if the next position matches longer
+    while (match.length >= MIN_MATCH && match.length < LAZY_MATCH_LIMIT && i + 1 < data.length) {
+      const next = finder.findMatch(i + 1);
+      if (next.length <= match.length) break;
+      push(data[i], 0, i + 1);
+      i++;
+      finder.insert(i);
+      match = next;
+    }
+
+    if (match.length >= MIN_MATCH) {
+      push(match.length, match.offset, i + match.length);
+      for (let j = 1; j < match.length; j++) finder.insert(i + j);
+      i += match.length;
+    } else {
+      push(data[i], 0, i + 1);
+      i++;
+    }
+
+    if (i >= nextReport) {
+      options.onProgress?.(i / data.length);
+      nextReport = i + reportInterval;
+    }
+  }
+
+  writeBlock(writer, data, block, true);
+  return writer.toUint8Array();
+}
+
+// Inflater
+
+function inflateAt(data: Uint8Array, offset: number): { output: Uint8Array; end: number } {
+  const reader = new LsbBitReader(data, offset);
+  let output = new Uint8Array(Math.max(1024, (data.length - offset) * 4));
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= output.length) return;
+    let capacity = output.length * 2;
+    while (capacity < length + extra) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(output.subarray(0, length));
+    output = grown;
+  };
+
+  const fixedLiterals = buildDecodeTable(FIXED_LITERAL_LENGTHS);
+  const fixedDistances = buildDecodeTable(FIXED_DISTANCE_LENGTHS);
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = reader.readBits(1) === 1;
+    const type = reader.readBits(2);
+
+    if (type === 0) {
+      const header = reader.readBytes(4);
+      const blockLength = header[0] | (header[1] << 8);
+      const complement = header[2] | (header[3] << 8);
+      if ((blockLength ^ 0xffff) !== complement) {
+        throw new Error('Invalid DEFLATE data: stored block length mismatch');
+      }
+      ensure(blockLength);
+      output.set(reader.readBytes(blockLength), length);
+      length += blockLength;
+      continue;
+    }
+
+    let literals: DecodeTable;
+    let distances: DecodeTable;
+    if (type === 1) {
+      literals = fixedLiterals;
+      distances = fixedDistances;
+    } else if (type === 2) {
+      const literalCount = reader.readBits(5) + 257;
+      const distanceCount = reader.readBits(5) + 1;
+      const codeLengthCount = reader.readBits(4) + 4;
+      const codeLengthLengths = new Array<number>(19).fill(0);
+      for (let i = 0; i < codeLengthCount; i++) {
+        codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.readBits(3);
+      }
+      const codeLengthTable = buildDecodeTable(codeLengthLengths);
+
+      const lengths: number[] = [];
+      while (lengths.length < literalCount + distanceCount) {
+        const symbol = decodeSymbol(reader, codeLengthTable);
+        if (symbol < 16) {
+          lengths.push(symbol);
+        } else if (symbol === 16) {
+          if (lengths.length === 0) throw new Error('Invalid DEFLATE data: repeat with no previous length');
+          const previous = lengths[lengths.length - 1];
+          for (let n = 3 + reader.readBits(2); n > 0; n--) lengths.push(previous);
+        } else {
+          const zeros = symbol === 17 ? 3 + reader.readBits(3) : 11 + reader.readBits(7);
+          for (let n = 0; n < zeros; n++) lengths.push(0);
+        }
+      }
+      if (lengths.length > literalCount + distanceCount) {
+        throw new Error('Invalid DEFLATE data: code lengths overflow');
+      }
+      literals = buildDecodeTable(lengths.slice(0, literalCount));
+      distances = buildDecodeTable(lengths.slice(literalCount));
+    } else {
+      throw new Error('Invalid DEFLATE data: reserved block type');
+    }
+
+    for (;;) {
+      const symbol = decodeSymbol(reader, literals);
+      if (symbol < 256) {
+        ensure(1);
+        output[length++] = symbol;
+        continue;
+      }
+      if (symbol === END_OF_BLOCK) break;
+
+      const lengthCode = symbol - 257;
+      if (lengthCode >= LENGTH_BASE.length) throw new Error('Invalid DEFLATE data: bad length code');
+      const matchLength = LENGTH_BASE[lengthCode] + reader.readBits(LENGTH_EXTRA[lengthCode]);
+      const distanceCode = decodeSymbol(reader, distances);
+      if (distanceCode >= DISTANCE_BASE.length) throw new Error('Invalid DEFLATE data: bad distance code');
+      const distance = DISTANCE_BASE[distanceCode] + reader.readBits(DISTANCE_EXTRA[distanceCode]);
+      if (distance > length) throw new Error('Invalid DEFLATE data: distance too far back');
+
+      ensure(matchLength);
+      for (let i = 0; i < matchLength; i++) {
+        output[length] = output[length - distance];
+        length++;
+      }
+    }
+  }
+
+  reader.alignToByte();
+  return { output: output.slice(0, length), end: reader.byteOffset };
+}
+
+export function inflateRaw(data: Uint8Array): Uint8Array {
+  return inflateAt(data, 0).output;
+}
+
+// gzip framing (RFC 1952)
+
+const GZIP_FLAG_HCRC = 0x02;
+const GZIP_FLAG_EXTRA = 0x04;
+const GZIP_FLAG_NAME = 0x08;
+const GZIP_FLAG_COMMENT = 0x10;
+/** OS byte "unknown" */
+const GZIP_OS_UNKNOWN = 255;
+
+export function isGzip(data: Uint8Array): boolean {
+  return data.length >= 2 && data[0] === GZIP_MAGIC[0] && data[1] === GZIP_MAGIC[1];
+}
+
+/** Frames an already deflated stream as a single gzip member */
+export function wrapGzip(deflated: Uint8Array, original: Uint8Array, fileName = ''): Uint8Array {
+  // FNAME is ISO 8859-1; substitute anything outside it
+  const nameBytes = Uint8Array.from(Array.from(fileName, char => {
+    const code = char.codePointAt(0)!;
+    return code > 0 && code <= 0xff ? code : 0x5f;
+  }));
+  const headerLength = 10 + (nameBytes.length > 0 ? nameBytes.length + 1 : 0);
+  const output = new Uint8Array(headerLength + deflated.length + 8);
+  const view = new DataView(output.buffer);
+
+  output[0] = GZIP_MAGIC[0];
+  output[1] = GZIP_MAGIC[1];
+  output[2] = 8; // CM = deflate
+  output[3] = nameBytes.length > 0 ? GZIP_FLAG_NAME : 0;
+  view.setUint32(4, 0, true); // MTIME unknown
+  output[8] = 0;
+  output[9] = GZIP_OS_UNKNOWN;
+  if (nameBytes.length > 0) output.set(nameBytes, 10);
+
+  output.set(deflated, headerLength);
+  view.setUint32(headerLength + deflated.length, crc32(original), true);
+  view.setUint32(headerLength + deflated.length + 4, original.length >>> 0, true);
+  return output;
+}
+
+export function gzipCompress(data: Uint8Array, fileName = '', options: DeflateOptions = {}): Uint8Array {
+  return wrapGzip(deflateRaw(data, options), data, fileName);
+}
+
+export interface GunzipResult {
+  data: Uint8Array;
+  /** FNAME of the first member, if present */
+  fileName?: string;
+  checksumValid: boolean;
+}
+
+/** Parses a gzip member header, returning its length and stored file name */
+export function readGzipHeader(data: Uint8Array): { headerLength: number; fileName?: string } {
+  if (!isGzip(data)) throw new Error('Not a gzip stream (bad magic number)');
+  if (data.length < 10) throw new Error('gzip header is truncated');
+  if (data[2] !== 8) throw new Error(`Unsupported gzip compression method ${data[2]}`);
+
+  const flags = data[3];
+  let fileName: string | undefined;
+  let position = 10;
+  if (flags & GZIP_FLAG_EXTRA) {
+    position += 2 + (data[position] | (data[position + 1] << 8));
+  }
+  if (flags & GZIP_FLAG_NAME) {
+    const start = position;
+    while (position < data.length && data[position] !== 0) position++;
+    fileName = Array.from(data.subarray(start, position), byte => String.fromCharCode(byte)).join('');
+    position++;
+  }
+  if (flags & GZIP_FLAG_COMMENT) {
+    while (position < data.length && data[position] !== 0) position++;
+    position++;
+  }
+  if (flags & GZIP_FLAG_HCRC) position += 2;
+  if (position > data.length) throw new Error('gzip header is truncated');
+
+  return { headerLength: position, fileName };
+}
+
+/** Decompresses every member of a gzip file, verifying each CRC-32 and size */
+export function gunzip(data: Uint8Array): GunzipResult {
+  const members: Uint8Array[] = [];
+  let fileName: string | undefined;
+  let checksumValid = true;
+  let offset = 0;
+
+  do {
+    const rest = data.subarray(offset);
+    // Trailing zero padding after the last member is common; anything else must be another member
+    if (members.length > 0 && rest.every(byte => byte === 0)) break;
+
+    const member = readGzipHeader(rest);
+    if (members.length === 0) fileName = member.fileName;
+    const position = offset + member.headerLength;
+
+    const { output, end } = inflateAt(data, position);
+    if (end + 8 > data.length) throw new Error('gzip trailer is truncated');
+    const view = new DataView(data.buffer, data.byteOffset + end, 8);
+    if (view.getUint32(0, true) !== crc32(output) || view.getUint32(4, true) !== output.length >>> 0) {
+      checksumValid = false;
+    }
+
+    members.push(output);
+    offset = end + 8;
+  } while (offset < data.length);
+
+  if (members.length === 1) return { data: members[0], fileName, checksumValid };
+
+  const total = members.reduce((sum, member) => sum + member.length, 0);
+  const joined = new Uint8Array(total);
+  let position = 0;
+  for (const member of members) {
+    joined.set(member, position);
+    position += member.length;
+  }
+  return { data: joined, fileName, checksumValid };
+}
+
+// zlib framing (RFC 1950)
+
+export function isZlib(data: Uint8Array): boolean {
+  return data.length >= 2 && (data[0] & 0x0f) === 8 && (data[0] >>> 4) <= 7 && ((data[0] << 8) | data[1]) % 31 === 0;
+}
+
+/** Frames an already deflated stream as a zlib stream */
+export function wrapZlib(deflated: Uint8Array, original: Uint8Array): Uint8Array {
+  const output = new Uint8Array(2 + deflated.length + 4);
+  // CMF: deflate with a 32K window; FLG: default level, check bits make CMF*256+FLG divisible by 31
+  output[0] = 0x78;
+  output[1] = 0x9c;
+  output.set(deflated, 2);
+  new DataView(output.buffer).setUint32(2 + deflated.length, adler32(original), false);
+  return output;
+}
+
+export function zlibCompress(data: Uint8Array, options: DeflateOptions = {}): Uint8Array {
+  return wrapZlib(deflateRaw(data, options), data);
+}
+
+export function zlibDecompress(data: Uint8Array): { data: Uint8Array; checksumValid: boolean } {
+  if (!isZlib(data)) throw new Error('Not a zlib stream (bad header)');
+  if (data[1] & 0x20) throw new Error('zlib streams with a preset dictionary are not supported');
+
+  const { output, end } = inflateAt(data, 2);
+  if (end + 4 > data.length) throw new Error('zlib trailer is truncated');
+  const expected = new DataView(data.buffer, data.byteOffset + end, 4).getUint32(0, false);
+  return { data: output, checksumValid: expected === adler32(output) };
+}
@@ -0,0 +1,25 @@
+// Order-0 statistics used to compare codecs against the Shannon limit
+
+/** Adds the byte counts of `data` to `counts` (a fresh table by default) */
+export function byteHistogram(data: Uint8Array, counts = new Float64Array(256)): Float64Array {
+  for (let i = 0; i < data.length; i++) {
+    counts[data[i]]++;
+  }
+  return counts;
+}
+
+/** Shannon entropy in bits per symbol of a table of symbol counts */
+export function shannonEntropy(counts: ArrayLike<number>): number {
+  let total = 0;
+  for (let i = 0; i < counts.length; i++) total += counts[i];
+  if (total === 0) return 0;
+
+  let entropy = 0;
+  for (let i = 0; i < counts.length; i++) {
+    if (counts[i] > 0) {
+      const p = counts[i] / total;
+      entropy -= p * Math.log2(p);
+    }
+  }
+  return entropy;
+}
@@ -0,0 +1,19 @@
+// Display formatting shared by the panels
+
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/** Binary units to two decimals; negative sizes, such as a batch that grew, keep their sign */
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const i = Math.min(Math.floor(Math.log(Math.abs(bytes)) / Math.log(k)), SIZE_UNITS.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + SIZE_UNITS[i];
+}
+
+/** Milliseconds below a second, seconds below a minute, then minutes and seconds */
+export function formatTime(ms: number): string {
+  if (ms < 1000) return `${ms.toFixed(1)}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(2)}s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
@@ -0,0 +1,319 @@
+import { ByteWriter } from './bitStream';
+import { xxhash32 } from './xxhash32';
+
+// LZ4 block and frame formats (lz4_Block_format.md, lz4_Frame_format.md).
+//
+// A block is a list of sequences: a token byte (high nibble literal length,
+// low nibble match length - 4), optional length extension bytes of 255, the
+// literals, a little-endian u16 match offset and optional match length bytes.
+// The last sequence has literals only. Matching is greedy over a hash of the
+// next four bytes, as in the reference fast compressor.
+const MIN_MATCH = 4;
+/** The last five bytes of a block are always literals */
+const LAST_LITERALS = 5;
+/** A match may not start within the last twelve bytes of a block */
+const MF_LIMIT = 12;
+const MAX_OFFSET = 65535;
+const HASH_LOG = 16;
+/** After this many misses in a row, start skipping ahead faster through incompressible data */
+const SKIP_TRIGGER = 6;
+
+const FRAME_MAGIC = 0x184d2204;
+const LEGACY_MAGIC = 0x184c2102;
+const SKIPPABLE_MAGIC_MASK = 0xfffffff0;
+const SKIPPABLE_MAGIC = 0x184d2a50;
+const UNCOMPRESSED_BLOCK_FLAG = 0x80000000;
+
+const FLAG_VERSION = 0x40;
+const FLAG_BLOCK_INDEPENDENCE = 0x20;
+const FLAG_BLOCK_CHECKSUM = 0x10;
+const FLAG_CONTENT_SIZE = 0x08;
+const FLAG_CONTENT_CHECKSUM = 0x04;
+const FLAG_DICTIONARY_ID = 0x01;
+
+/** Block maximum size codes 4-7 in the BD byte */
+const BLOCK_MAX_SIZES: Record<number, number> = {
+  4: 64 * 1024,
+  5: 256 * 1024,
+  6: 1024 * 1024,
+  7: 4 * 1024 * 1024
+};
+export const LZ4_DEFAULT_BLOCK_SIZE_ID = 7;
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+}
+
+function writeUint32(output: ByteWriter, value: number) {
+  output.writeUint8(value);
+  output.writeUint8(value >>> 8);
+  output.writeUint8(value >>> 16);
+  output.writeUint8(value >>> 24);
+}
+
+function writeLength(output: ByteWriter, length: number) {
+  for (; length >= 255; length -= 255) output.writeUint8(255);
+  output.writeUint8(length);
+}
+
+export function lz4CompressBlock(src: Uint8Array): Uint8Array {
+  const n = src.length;
+  const output = new ByteWriter(Math.max(64, n >>> 1));
+  const table = new Int32Array(1 << HASH_LOG).fill(-1);
+  const matchLimit = n - LAST_LITERALS;
+  const lastMatchStart = n - MF_LIMIT;
+  let anchor = 0;
+  let position = 0;
+  let misses = 0;
+
+  const read32 = (offset: number) =>
+    src[offset] | (src[offset + 1] << 8) | (src[offset + 2] << 16) | (src[offset + 3] << 24);
+  const hash = (value: number) => Math.imul(value, 0x9e3779b1) >>> (32 - HASH_LOG);
+
+  while (position <= lastMatchStart) {
+    const sequence = read32(position);
+    const slot = hash(sequence);
+    let candidate = table[slot];
+    table[slot] = position;
+
+    if (candidate < 0 || position - candidate > MAX_OFFSET || read32(candidate) !== sequence) {
+      position += 1 + (misses++ >>> SKIP_TRIGGER);
+      continue;
+    }
+    misses = 0;
+
+    // Extend backwards over literals that also match, then forwards
+    while (position > anchor && candidate > 0 && src[position - 1] === src[candidate - 1]) {
+      position--;
+      candidate--;
+    }
+    let length = MIN_MATCH;
+    while (position + length < matchLimit && src[position + length] === src[candidate + length]) length++;
+
+    const literalLength = position - anchor;
+    const matchCode = length - MIN_MATCH;
+    output.writeUint8((Math.min(literalLength, 15) << 4) | Math.min(matchCode, 15));
+    if (literalLength >= 15) writeLength(output, literalLength - 15);
+    output.writeBytes(src.subarray(anchor, position));
+    const offset = position - candidate;
+    output.writeUint8(offset);
+    output.writeUint8(offset >>> 8);
+    if (matchCode >= 15) writeLength(output, matchCode - 15);
+
+    position += length;
+    anchor = position;
+    // Index a position inside the match so the next search has a recent candidate
+    if (position - 2 <= lastMatchStart) table[hash(read32(position - 2))] = position - 2;
+  }
+
+  const literalLength = n - anchor;
+  output.writeUint8(Math.min(literalLength, 15) << 4);
+  if (literalLength >= 15) writeLength(output, literalLength - 15);
+  output.writeBytes(src.subarray(anchor, n));
+  return output.toUint8Array();
+}
+
+/** Growable output that keeps earlier blocks as history for linked blocks */
+class OutputBuffer {
+  data: Uint8Array;
+  length = 0;
+
+  constructor(capacity: number) {
+    this.data = new Uint8Array(Math.max(1024, capacity));
+  }
+
+  ensure(extra: number) {
+    if (this.length + extra <= this.data.length) return;
+    let capacity = this.data.length * 2;
+    while (capacity < this.length + extra) capacity *= 2;
+    const grown = new Uint8Array(capacity);
+    grown.set(this.data.subarray(0, this.length));
+    this.data = grown;
+  }
+
+  append(bytes: Uint8Array) {
+    this.ensure(bytes.length);
+    this.data.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+}
+
+function readLength(src: Uint8Array, state: { position: number }, base: number): number {
+  let length = base;
+  if (base === 15) {
+    let byte: number;
+    do {
+      if (state.position >= src.length) throw new Error('Invalid LZ4 block: truncated length');
+      byte = src[state.position++];
+      length += byte;
+    } while (byte === 255);
+  }
+  return length;
+}
+
+/**
+ * Decodes one block onto the end of `output`. `historyStart` is the earliest
+ * output position a match may reach: the block start for independent blocks.
+ */
+function decodeBlockInto(src: Uint8Array, output: OutputBuffer, historyStart: number) {
+  const state = { position: 0 };
+  while (state.position < src.length) {
+    const token = src[state.position++];
+
+    const literalLength = readLength(src, state, token >>> 4);
+    if (state.position + literalLength > src.length) throw new Error('Invalid LZ4 block: literals run past the end');
+    output.append(src.subarray(state.position, state.position + literalLength));
+    state.position += literalLength;
+    if (state.position === src.length) break; // the last sequence has no match
+
+    if (state.position + 2 > src.length) throw new Error('Invalid LZ4 block: truncated offset');
+    const offset = src[state.position] | (src[state.position + 1] << 8);
+    state.position += 2;
+    const length = readLength(src, state, token & 15) + MIN_MATCH;
+    if (offset === 0 || output.length - offset < historyStart) {
+      throw new Error('Invalid LZ4 block: match offset out of range');
+    }
+
+    output.ensure(length);
+    const { data } = output;
+    let from = output.length - offset;
+    if (offset >= length) {
+      data.copyWithin(output.length, from, from + length);
+      output.length += length;
+    } else {
+      // Overlapping match repeats the last `offset` bytes
+      for (let i = 0; i < length; i++) data[output.length++] = data[from++];
+    }
+  }
+}
+
+export function lz4DecompressBlock(src: Uint8Array, expectedLength = src.length * 4): Uint8Array {
+  const output = new OutputBuffer(expectedLength);
+  decodeBlockInto(src, output, 0);
+  return output.data.slice(0, output.length);
+}
+
+export interface Lz4FrameOptions {
+  blockSizeId?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+/** Writes one frame with independent blocks, the content size and a content checksum */
+export function lz4CompressFrame(data: Uint8Array, options: Lz4FrameOptions = {}): Uint8Array {
+  const blockSizeId = options.blockSizeId ?? LZ4_DEFAULT_BLOCK_SIZE_ID;
+  const blockSize = BLOCK_MAX_SIZES[blockSizeId];
+  if (!blockSize) throw new Error(`Invalid LZ4 block size id ${blockSizeId}`);
+
+  const output = new ByteWriter(Math.max(64, data.length >>> 1));
+  writeUint32(output, FRAME_MAGIC);
+
+  const descriptor = new Uint8Array(10);
+  descriptor[0] = FLAG_VERSION | FLAG_BLOCK_INDEPENDENCE | FLAG_CONTENT_SIZE | FLAG_CONTENT_CHECKSUM;
+  descriptor[1] = blockSizeId << 4;
+  const view = new DataView(descriptor.buffer);
+  view.setUint32(2, data.length >>> 0, true);
+  view.setUint32(6, Math.floor(data.length / 0x100000000), true);
+  output.writeBytes(descriptor);
+  output.writeUint8((xxhash32(descriptor) >>> 8) & 0xff);
+
+  for (let start = 0; start < data.length; start += blockSize) {
+    const block = data.subarray(start, start + blockSize);
+    const compressed = lz4CompressBlock(block);
+    if (compressed.length < block.length) {
+      writeUint32(output, compressed.length);
+      output.writeBytes(compressed);
+    } else {
+      writeUint32(output, (block.length | UNCOMPRESSED_BLOCK_FLAG) >>> 0);
+      output.writeBytes(block);
+    }
+    options.onProgress?.(Math.min(1, (start + blockSize) / data.length));
+  }
+
+  writeUint32(output, 0); // end mark
+  writeUint32(output, xxhash32(data));
+  return output.toUint8Array();
+}
+
+export function isLz4Frame(data: Uint8Array): boolean {
+  if (data.length < 4) return false;
+  const magic = readUint32(data, 0);
+  return magic === FRAME_MAGIC || (magic & SKIPPABLE_MAGIC_MASK) >>> 0 === SKIPPABLE_MAGIC;
+}
+
+/** Decodes every frame in `data`, skipping skippable frames and verifying any checksums present */
+export function lz4DecompressFrames(data: Uint8Array): { data: Uint8Array; checksumValid: boolean } {
+  const output = new OutputBuffer(data.length * 3);
+  let checksumValid = true;
+  let offset = 0;
+
+  const need = (count: number) => {
+    if (offset + count > data.length) throw new Error('LZ4 frame is truncated');
+  };
+
+  do {
+    need(4);
+    const magic = readUint32(data, offset);
+    if ((magic & SKIPPABLE_MAGIC_MASK) >>> 0 === SKIPPABLE_MAGIC) {
+      need(8);
+      offset += 8 + readUint32(data, offset + 4);
+      continue;
+    }
+    if (magic === LEGACY_MAGIC) throw new Error('Legacy LZ4 frames are not supported');
+    if (magic !== FRAME_MAGIC) throw new Error('Not an LZ4 frame (bad magic number)');
+
+    need(7);
+    const flags = data[offset + 4];
+    if ((flags & 0xc0) !== FLAG_VERSION) throw new Error('Unsupported LZ4 frame version');
+    if (flags & FLAG_DICTIONARY_ID) throw new Error('LZ4 frames with a dictionary are not supported');
+    const blockMaxSize = BLOCK_MAX_SIZES[(data[offset + 5] >>> 4) & 7];
+    if (!blockMaxSize) throw new Error('Invalid LZ4 block maximum size');
+
+    const descriptorLength = 2 + (flags & FLAG_CONTENT_SIZE ? 8 : 0);
+    need(4 + descriptorLength + 1);
+    const descriptor = data.subarray(offset + 4, offset + 4 + descriptorLength);
+    if (((xxhash32(descriptor) >>> 8) & 0xff) !== data[offset + 4 + descriptorLength]) {
+      throw new Error('LZ4 frame header checksum mismatch');
+    }
+    const contentSize = flags & FLAG_CONTENT_SIZE
+      ? readUint32(descriptor, 2) + readUint32(descriptor, 6) * 0x100000000
+      : -1;
+    if (contentSize > 0) output.ensure(contentSize);
+    offset += 4 + descriptorLength + 1;
+
+    const frameStart = output.length;
+    for (;;) {
+      need(4);
+      const header = readUint32(data, offset);
+      offset += 4;
+      if (header === 0) break;
+
+      const size = header & ~UNCOMPRESSED_BLOCK_FLAG;
+      if (size > blockMaxSize) throw new Error('LZ4 block exceeds the frame block size');
+      need(size);
+      const block = data.subarray(offset, offset + size);
+      offset += size;
+      if (flags & FLAG_BLOCK_CHECKSUM) {
+        need(4);
+        if (readUint32(data, offset) !== xxhash32(block)) checksumValid = false;
+        offset += 4;
+      }
+
+      if (header & UNCOMPRESSED_BLOCK_FLAG) {
+        output.append(block);
+      } else {
+        // Linked blocks may reach back into earlier blocks of the same frame
+        decodeBlockInto(block, output, flags & FLAG_BLOCK_INDEPENDENCE ? output.length : frameStart);
+      }
+    }
+
+    const content = output.data.subarray(frameStart, output.length);
+    if (contentSize >= 0 && content.length !== contentSize) checksumValid = false;
+    if (flags & FLAG_CONTENT_CHECKSUM) {
+      need(4);
+      if (readUint32(data, offset) !== xxhash32(content)) checksumValid = false;
+      offset += 4;
+    }
+  } while (offset < data.length);
+
+  return { data: output.data.slice(0, output.length), checksumValid };
+}
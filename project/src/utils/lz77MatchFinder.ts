@@ -0,0 +1,87 @@
+// Hash-chain match finder shared by the LZ-family codecs.
+//
+// Every position is hashed on its first MIN_HASH_BYTES bytes. `head` holds the
+// most recent position for each hash and `prev` links each position to the
+// previous one with the same hash, so candidate matches are visited newest
+// (closest) first and the search stops after `maxChainDepth` candidates.
+const MIN_HASH_BYTES = 3;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+
+export interface Match {
+  /** Distance back from the current position, 0 when there is no match */
+  offset: number;
+  length: number;
+}
+
+export interface MatchFinderOptions {
+  /** Maximum match distance */
+  windowSize: number;
+  maxMatchLength: number;
+  maxChainDepth: number;
+}
+
+export class HashChainMatchFinder {
+  private readonly data: Uint8Array;
+  private readonly options: MatchFinderOptions;
+  private readonly head = new Int32Array(HASH_SIZE).fill(-1);
+  private readonly prev: Int32Array;
+  private readonly windowMask: number;
+
+  constructor(data: Uint8Array, options: MatchFinderOptions) {
+    this.data = data;
+    this.options = options;
+    // The chain ring is rounded up to a power of two so it can be indexed with a mask
+    const ringSize = 2 ** Math.ceil(Math.log2(Math.max(options.windowSize, 1)));
+    this.prev = new Int32Array(ringSize).fill(-1);
+    this.windowMask = ringSize - 1;
+  }
+
+  private hash(position: number): number {
+    const { data } = this;
+    const value = (data[position] << 16) | (data[position + 1] << 8) | data[position + 2];
+    return (Math.imul(value, 0x9e3779b1) >>> (32 - HASH_BITS)) & (HASH_SIZE - 1);
+  }
+
+  /** Adds a position to the chains; call for every position in order */
+  insert(position: number) {
+    if (position + MIN_HASH_BYTES > this.data.length) return;
+    const h = this.hash(position);
+    this.prev[position & this.windowMask] = this.head[h];
+    this.head[h] = position;
+  }
+
+  /** Finds the longest earlier match for `position` without inserting it */
+  findMatch(position: number, maxLength = this.options.maxMatchLength): Match {
+    const { data } = this;
+    const best: Match = { offset: 0, length: 0 };
+    const limit = Math.min(maxLength, data.length - position);
+    if (limit < MIN_HASH_BYTES) return best;
+
+    const minPosition = position - this.options.windowSize;
+    let candidate = this.head[this.hash(position)];
+    let depth = this.options.maxChainDepth;
+
+    while (candidate >= 0 && candidate > minPosition && depth-- > 0) {
+      // Check the byte just past the current best first; most candidates fail there
+      if (data[candidate + best.length] === data[position + best.length]) {
+        let length = 0;
+        while (length < limit && data[candidate + length] === data[position + length]) {
+          length++;
+        }
+        if (length > best.length) {
+          best.length = length;
+          best.offset = position - candidate;
+          if (length === limit) break;
+        }
+      }
+
+      const next = this.prev[candidate & this.windowMask];
+      // Slots are reused once the window slides past them; stop at stale links
+      if (next >= candidate) break;
+      candidate = next;
+    }
+
+    return best;
+  }
+}
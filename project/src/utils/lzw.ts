@@ -0,0 +1,166 @@
+import { BitReader, BitWriter, ByteReader, ByteWriter } from './bitStream';
+
+// LZW with variable code width, in the style of GIF and Unix compress.
+//
+// Payload: varint original length, u8 maximum code width, then MSB-first
+// codes. Codes start 9 bits wide and grow by one bit whenever the next free
+// code would not fit, up to the maximum. When the dictionary is full the
+// encoder emits CLEAR_CODE and both sides start over with 9-bit codes.
+// The stream ends with END_CODE.
+export const LZW_MIN_CODE_BITS = 9;
+export const LZW_MAX_CODE_BITS = 16;
+const CLEAR_CODE = 256;
+const END_CODE = 257;
+const FIRST_FREE_CODE = 258;
+
+// Encoder dictionary: open-addressed hash of (prefix code << 8 | byte) -> code
+const HASH_BITS = 18;
+const HASH_SIZE = 1 << HASH_BITS;
+
+export interface LzwOptions {
+  maxCodeBits?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+export function lzwEncode(data: Uint8Array, options: LzwOptions = {}): Uint8Array {
+  const maxCodeBits = options.maxCodeBits ?? LZW_MAX_CODE_BITS;
+  if (maxCodeBits < LZW_MIN_CODE_BITS || maxCodeBits > LZW_MAX_CODE_BITS) {
+    throw new Error(`LZW code width must be between ${LZW_MIN_CODE_BITS} and ${LZW_MAX_CODE_BITS} bits`);
+  }
+  const maxCode = 1 << maxCodeBits;
+
+  const keys = new Int32Array(HASH_SIZE).fill(-1);
+  const values = new Uint16Array(HASH_SIZE);
+  const slotFor = (key: number): number => {
+    let slot = Math.imul(key, 0x9e3779b1) >>> (32 - HASH_BITS);
+    while (keys[slot] !== -1 && keys[slot] !== key) slot = (slot + 1) & (HASH_SIZE - 1);
+    return slot;
+  };
+
+  const bits = new BitWriter();
+  let width = LZW_MIN_CODE_BITS;
+  let nextCode = FIRST_FREE_CODE;
+  const reportInterval = Math.max(1, data.length >>> 6);
+  let nextReport = reportInterval;
+
+  if (data.length > 0) {
+    let prefix = data[0];
+    for (let i = 1; i < data.length; i++) {
+      const byte = data[i];
+      const key = (prefix << 8) | byte;
+      const slot = slotFor(key);
+      if (keys[slot] === key) {
+        prefix = values[slot];
+        continue;
+      }
+
+      bits.writeBits(prefix, width);
+      if (nextCode < maxCode) {
+        keys[slot] = key;
+        values[slot] = nextCode++;
+        if (nextCode > 1 << width && width < maxCodeBits) width++;
+      } else {
+        bits.writeBits(CLEAR_CODE, width);
+        keys.fill(-1);
+        width = LZW_MIN_CODE_BITS;
+        nextCode = FIRST_FREE_CODE;
+      }
+      prefix = byte;
+
+      if (i >= nextReport) {
+        options.onProgress?.(i / data.length);
+        nextReport = i + reportInterval;
+      }
+    }
+    bits.writeBits(prefix, width);
+  }
+  bits.writeBits(END_CODE, width);
+
+  const output = new ByteWriter();
+  output.writeVarint(data.length);
+  output.writeUint8(maxCodeBits);
+  output.writeBytes(bits.toUint8Array());
+  return output.toUint8Array();
+}
+
+export function lzwDecode(compressed: Uint8Array): Uint8Array {
+  const reader = new ByteReader(compressed);
+  const originalLength = reader.readVarint();
+  const maxCodeBits = reader.readUint8();
+  if (maxCodeBits < LZW_MIN_CODE_BITS || maxCodeBits > LZW_MAX_CODE_BITS) {
+    throw new Error(`Invalid LZW code width ${maxCodeBits}`);
+  }
+  const maxCode = 1 << maxCodeBits;
+  const bits = new BitReader(compressed, reader.offset);
+
+  // Each entry is its prefix code plus one byte; lengths let us write entries back to front
+  const prefixes = new Int32Array(maxCode);
+  const suffixes = new Uint8Array(maxCode);
+  const lengths = new Uint32Array(maxCode);
+  const firstBytes = new Uint8Array(maxCode);
+  for (let code = 0; code < 256; code++) {
+    suffixes[code] = code;
+    firstBytes[code] = code;
+    lengths[code] = 1;
+  }
+
+  const output = new Uint8Array(originalLength);
+  let position = 0;
+  let width = LZW_MIN_CODE_BITS;
+  let nextCode = FIRST_FREE_CODE;
+  let previous = -1;
+
+  const writeEntry = (code: number) => {
+    const length = lengths[code];
+    if (position + length > originalLength) {
+      throw new Error('LZW data decodes past the recorded length');
+    }
+    let cursor = code;
+    for (let i = position + length - 1; i >= position; i--) {
+      output[i] = suffixes[cursor];
+      cursor = prefixes[cursor];
+    }
+    position += length;
+  };
+
+  for (;;) {
+    const code = bits.readBits(width);
+    if (code === END_CODE) break;
+    if (code === CLEAR_CODE) {
+      width = LZW_MIN_CODE_BITS;
+      nextCode = FIRST_FREE_CODE;
+      previous = -1;
+      continue;
+    }
+
+    if (previous < 0) {
+      if (code > 255) throw new Error(`Invalid LZW code ${code} after a reset`);
+      writeEntry(code);
+      previous = code;
+      continue;
+    }
+
+    if (code > nextCode) throw new Error(`Invalid LZW code ${code}`);
+    // The encoder adds an entry after every code; we learn its last byte one code later
+    if (nextCode < maxCode) {
+      const first = code === nextCode ? firstBytes[previous] : firstBytes[code];
+      prefixes[nextCode] = previous;
+      suffixes[nextCode] = first;
+      firstBytes[nextCode] = firstBytes[previous];
+      lengths[nextCode] = lengths[previous] + 1;
+      nextCode++;
+      // We trail the encoder's dictionary by one entry, so widen one code early
+      if (nextCode + 1 > 1 << width && width < maxCodeBits) width++;
+    } else if (code === nextCode) {
+      throw new Error(`Invalid LZW code ${code}`);
+    }
+
+    writeEntry(code);
+    previous = code;
+  }
+
+  if (position !== originalLength) {
+    throw new Error('LZW data ended before the recorded length');
+  }
+  return output;
+}
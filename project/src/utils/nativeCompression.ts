@@ -0,0 +1,49 @@
+// Thin wrappers over the platform CompressionStream/DecompressionStream, used
+// as production-grade baselines for the hand-written codecs.
+
+/** Bytes written to the stream between progress reports */
+const CHUNK_SIZE = 256 * 1024;
+
+export function isNativeCompressionSupported(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+async function runThroughStream(
+  stream: CompressionStream | DecompressionStream,
+  data: Uint8Array,
+  onProgress?: (fraction: number) => void
+): Promise<Uint8Array> {
+  // Start draining the output before writing so backpressure cannot stall the writes
+  const output = new Response(stream.readable).arrayBuffer();
+
+  const writeAll = async () => {
+    const writer = stream.writable.getWriter();
+    for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+      await writer.write(data.subarray(offset, offset + CHUNK_SIZE));
+      onProgress?.(Math.min(1, (offset + CHUNK_SIZE) / data.length));
+    }
+    await writer.close();
+  };
+
+  const [, buffer] = await Promise.all([writeAll(), output]);
+  return new Uint8Array(buffer);
+}
+
+export function nativeCompress(format: CompressionFormat, data: Uint8Array, onProgress?: (fraction: number) => void): Promise<Uint8Array> {
+  if (!isNativeCompressionSupported()) {
+    throw new Error('CompressionStream is not supported by this browser');
+  }
+  return runThroughStream(new CompressionStream(format), data, onProgress);
+}
+
+export async function nativeDecompress(format: CompressionFormat, data: Uint8Array): Promise<Uint8Array> {
+  if (!isNativeCompressionSupported()) {
+    throw new Error('DecompressionStream is not supported by this browser');
+  }
+  try {
+    return await runThroughStream(new DecompressionStream(format), data);
+  } catch (error) {
+    // Platform errors are generic; say which format failed to decode
+    throw new Error(`Invalid ${format} data: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,72 @@
+import { ProcessingProgress, StageTiming } from '../types';
+
+/** Updates closer together than this are dropped, unless the stage changes or the job finishes */
+export const PROGRESS_INTERVAL_MS = 100;
+
+// Codecs report 'Complete' as they return; it ends the previous stage rather than starting one
+const FINAL_STAGE = 'Complete';
+
+/**
+ * Turns the bare stage and percentage codecs report into throttled updates
+ * with bytes processed, throughput, elapsed time, ETA and per-stage timings.
+ * One tracker follows one job from start to finish.
+ */
+export class ProgressTracker {
+  private readonly totalBytes: number;
+  private readonly intervalMs: number;
+  private readonly startTime = performance.now();
+  private readonly stages: StageTiming[] = [];
+  /** The stage the clock is running for; null before the first update and after 'Complete' */
+  private current: StageTiming | null = null;
+  private stageStart = this.startTime;
+  private lastEmit = -Infinity;
+  private lastStage = '';
+
+  constructor(totalBytes: number, intervalMs = PROGRESS_INTERVAL_MS) {
+    this.totalBytes = totalBytes;
+    this.intervalMs = intervalMs;
+  }
+
+  /** Returns the update to pass on, or null when it falls inside the throttle interval */
+  update(progress: ProcessingProgress): ProcessingProgress | null {
+    const now = performance.now();
+    const stageChanged = progress.stage !== this.lastStage;
+
+    if (stageChanged) {
+      if (this.current) this.current.elapsedMs += now - this.stageStart;
+      // A stage that comes round again, like verification after each block, keeps adding to one entry
+      this.current = progress.stage === FINAL_STAGE
+        ? null
+        : this.stages.find(timing => timing.stage === progress.stage) ?? null;
+      if (!this.current && progress.stage !== FINAL_STAGE) {
+        this.current = { stage: progress.stage, elapsedMs: 0 };
+        this.stages.push(this.current);
+      }
+      this.lastStage = progress.stage;
+      this.stageStart = now;
+    }
+    if (!stageChanged && progress.progress < 100 && now - this.lastEmit < this.intervalMs) return null;
+    this.lastEmit = now;
+
+    const stages = this.stages.map(timing => ({
+      stage: timing.stage,
+      elapsedMs: timing.elapsedMs + (timing === this.current ? now - this.stageStart : 0)
+    }));
+    const fraction = Math.min(Math.max(progress.progress / 100, 0), 1);
+    const elapsedMs = now - this.startTime;
+    const bytesProcessed = Math.round(this.totalBytes * fraction);
+
+    return {
+      ...progress,
+      telemetry: {
+        bytesProcessed,
+        totalBytes: this.totalBytes,
+        elapsedMs,
+        bytesPerSecond: elapsedMs > 0 ? bytesProcessed / (elapsedMs / 1000) : 0,
+        // The first percent or two is mostly setup, which makes for wild guesses
+        etaMs: fraction >= 1 ? 0 : fraction >= 0.02 ? (elapsedMs * (1 - fraction)) / fraction : null,
+        stages
+      }
+    };
+  }
+}
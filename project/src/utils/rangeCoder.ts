@@ -0,0 +1,237 @@
+import { ByteReader, ByteWriter } from './bitStream';
+
+// Adaptive binary range coder in the style of LZMA.
+//
+// Each byte is coded as eight binary decisions down a 256-leaf bit tree, and
+// every tree node keeps a 15-bit probability that adapts after each bit. The
+// order-0 model has one tree; the order-1 model has one tree per preceding
+// byte, so it learns which bytes tend to follow which.
+//
+// Payload: varint original length, u8 model order, then the range coder output.
+const PROBABILITY_BITS = 15;
+const PROBABILITY_ONE = 1 << PROBABILITY_BITS;
+/** Keeps both outcomes codable however skewed a node gets */
+const PROBABILITY_MARGIN = 32;
+/**
+ * A node's probability is the running average of the bits it has seen, so it
+ * converges on the true frequency like a static model. After this many bits
+ * it becomes a moving average so it can still follow changes in the data.
+ */
+const ADAPT_LIMIT = 255;
+// 65536 / (n + 1.5): the averaging weight for a node that has seen n bits
+const UPDATE_WEIGHTS = Uint32Array.from({ length: ADAPT_LIMIT + 1 }, (_, n) => Math.floor(65536 / (n + 1.5)));
+const TOP = 1 << 24;
+const UINT32 = 0x100000000;
+
+export type ContextOrder = 0 | 1;
+
+/** Probabilities (of a 0 bit) for every node of every context's bit tree */
+class BitModel {
+  readonly probabilities: Uint16Array;
+  private readonly counts: Uint16Array;
+
+  constructor(size: number) {
+    this.probabilities = new Uint16Array(size).fill(PROBABILITY_ONE >>> 1);
+    this.counts = new Uint16Array(size);
+  }
+
+  update(index: number, bit: number) {
+    const probability = this.probabilities[index];
+    const count = this.counts[index];
+    const target = bit === 0 ? PROBABILITY_ONE - PROBABILITY_MARGIN : PROBABILITY_MARGIN;
+    this.probabilities[index] = probability + (((target - probability) * UPDATE_WEIGHTS[count]) >> 16);
+    if (count < ADAPT_LIMIT) this.counts[index] = count + 1;
+  }
+}
+
+class RangeEncoder {
+  private readonly output: ByteWriter;
+  // low can briefly exceed 32 bits; the overflow is the carry into pending bytes
+  private low = 0;
+  private range = 0xffffffff;
+  private cache = 0;
+  private cacheSize = 1;
+
+  constructor(output: ByteWriter) {
+    this.output = output;
+  }
+
+  private shiftLow() {
+    if (this.low < 0xff000000 || this.low >= UINT32) {
+      const carry = this.low >= UINT32 ? 1 : 0;
+      let pending = this.cache;
+      do {
+        this.output.writeUint8(pending + carry);
+        pending = 0xff;
+      } while (--this.cacheSize !== 0);
+      this.cache = (this.low >>> 24) & 0xff;
+    }
+    this.cacheSize++;
+    this.low = (this.low & 0x00ffffff) * 256;
+  }
+
+  encodeBit(model: BitModel, index: number, bit: number) {
+    const bound = (this.range >>> PROBABILITY_BITS) * model.probabilities[index];
+    if (bit === 0) {
+      this.range = bound;
+    } else {
+      this.low += bound;
+      this.range -= bound;
+    }
+    model.update(index, bit);
+    while (this.range < TOP) {
+      this.range = (this.range * 256) >>> 0;
+      this.shiftLow();
+    }
+  }
+
+  finish() {
+    for (let i = 0; i < 5; i++) this.shiftLow();
+  }
+}
+
+class RangeDecoder {
+  private readonly input: ByteReader;
+  private range = 0xffffffff;
+  private code = 0;
+
+  constructor(input: ByteReader) {
+    this.input = input;
+    for (let i = 0; i < 5; i++) {
+      this.code = (this.code * 256 + input.readUint8()) % UINT32;
+    }
+  }
+
+  decodeBit(model: BitModel, index: number): number {
+    const bound = (this.range >>> PROBABILITY_BITS) * model.probabilities[index];
+    let bit: number;
+    if (this.code < bound) {
+      this.range = bound;
+      bit = 0;
+    } else {
+      this.code -= bound;
+      this.range -= bound;
+      bit = 1;
+    }
+    model.update(index, bit);
+    while (this.range < TOP) {
+      this.range = (this.range * 256) >>> 0;
+      this.code = this.code * 256 + this.input.readUint8();
+    }
+    return bit;
+  }
+}
+
+function createModel(order: ContextOrder): BitModel {
+  return new BitModel(order === 0 ? 256 : 256 * 256);
+}
+
+/** Codes symbols of a fixed bit width with one adaptive order-0 bit tree, for other codecs' entropy stages */
+export class SymbolEncoder {
+  private readonly encoder: RangeEncoder;
+  private readonly model: BitModel;
+  private readonly symbolBits: number;
+
+  constructor(output: ByteWriter, symbolBits: number) {
+    this.encoder = new RangeEncoder(output);
+    this.model = new BitModel(1 << symbolBits);
+    this.symbolBits = symbolBits;
+  }
+
+  encode(symbol: number) {
+    let node = 1;
+    for (let bitIndex = this.symbolBits - 1; bitIndex >= 0; bitIndex--) {
+      const bit = (symbol >>> bitIndex) & 1;
+      this.encoder.encodeBit(this.model, node, bit);
+      node = (node << 1) | bit;
+    }
+  }
+
+  finish() {
+    this.encoder.finish();
+  }
+}
+
+export class SymbolDecoder {
+  private readonly decoder: RangeDecoder;
+  private readonly model: BitModel;
+  private readonly limit: number;
+
+  constructor(input: ByteReader, symbolBits: number) {
+    this.decoder = new RangeDecoder(input);
+    this.model = new BitModel(1 << symbolBits);
+    this.limit = 1 << symbolBits;
+  }
+
+  decode(): number {
+    let node = 1;
+    while (node < this.limit) {
+      node = (node << 1) | this.decoder.decodeBit(this.model, node);
+    }
+    return node - this.limit;
+  }
+}
+
+export interface RangeCoderOptions {
+  order?: ContextOrder;
+  onProgress?: (fraction: number) => void;
+}
+
+export function rangeEncode(data: Uint8Array, options: RangeCoderOptions = {}): Uint8Array {
+  const order = options.order ?? 0;
+  const output = new ByteWriter(Math.max(64, data.length >>> 1));
+  output.writeVarint(data.length);
+  output.writeUint8(order);
+
+  const encoder = new RangeEncoder(output);
+  const model = createModel(order);
+  const reportInterval = Math.max(1, data.length >>> 6);
+  let nextReport = reportInterval;
+  let previous = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i];
+    const base = order === 1 ? previous << 8 : 0;
+    let node = 1;
+    for (let bitIndex = 7; bitIndex >= 0; bitIndex--) {
+      const bit = (byte >>> bitIndex) & 1;
+      encoder.encodeBit(model, base + node, bit);
+      node = (node << 1) | bit;
+    }
+    previous = byte;
+
+    if (i >= nextReport) {
+      options.onProgress?.(i / data.length);
+      nextReport = i + reportInterval;
+    }
+  }
+
+  encoder.finish();
+  return output.toUint8Array();
+}
+
+export function rangeDecode(compressed: Uint8Array): Uint8Array {
+  const reader = new ByteReader(compressed);
+  const originalLength = reader.readVarint();
+  const order = reader.readUint8();
+  if (order !== 0 && order !== 1) {
+    throw new Error(`Unsupported range coder context order ${order}`);
+  }
+
+  const decoder = new RangeDecoder(reader);
+  const model = createModel(order);
+  const output = new Uint8Array(originalLength);
+  let previous = 0;
+
+  for (let i = 0; i < originalLength; i++) {
+    const base = order === 1 ? previous << 8 : 0;
+    let node = 1;
+    while (node < 256) {
+      node = (node << 1) | decoder.decodeBit(model, base + node);
+    }
+    previous = node - 256;
+    output[i] = previous;
+  }
+
+  return output;
+}
@@ -0,0 +1,335 @@
+import {
+  AlgorithmParameters,
+  ArchiveHeader,
+  CompressionAlgorithm,
+  CompressionResult,
+  ContainerFormat,
+  FileInfo,
+  ProcessingProgress,
+  RestoredFile,
+  StandardFormat
+} from '../types';
+import { compressData, decompressData, decompressPayload } from './compressionAlgorithms';
+import { compressionRatio } from './compressionRatio';
+import { detectStandardFormat, downloadFormatFor, getCodec } from './codecRegistry';
+import {
+  ARCHIVE_EXTENSION,
+  ARCHIVE_PREFIX_SIZE,
+  BLOCK_FRAME_HEADER_SIZE,
+  isArchive,
+  readArchiveHeader,
+  readArchiveHeaderLength,
+  readBlockFrameHeader,
+  writeArchiveHeader,
+  writeBlockFrame
+} from './archiveFormat';
+import { crc32, updateCrc32 } from './crc32';
+import { DataAnalyzer } from './dataAnalysis';
+
+export const DEFAULT_BLOCK_SIZE = 1024 * 1024;
+/** Files above this size are compressed block by block instead of in one buffer */
+export const STREAMING_THRESHOLD = 16 * 1024 * 1024;
+
+/** Reads a picked or extracted file, holding its bytes in memory only when it is small enough */
+export function readFileInfo(file: File): Promise<FileInfo> {
+  const fileInfo: FileInfo = {
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+    file,
+    data: null
+  };
+
+  // Large files are left on disk and streamed to the compressor in blocks
+  if (file.size > STREAMING_THRESHOLD) return Promise.resolve(fileInfo);
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve({ ...fileInfo, data: e.target?.result as ArrayBuffer });
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+
+    // Read raw bytes so binary files survive compression unchanged
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+export async function readSlice(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+}
+
+/** Streams a Blob as fixed-size chunks, reading each one only when it is pulled */
+export function createBlockStream(blob: Blob, blockSize: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (offset >= blob.size) {
+        controller.close();
+        return;
+      }
+      const end = Math.min(offset + blockSize, blob.size);
+      controller.enqueue(await readSlice(blob, offset, end));
+      offset = end;
+    }
+  });
+}
+
+/**
+ * Compresses a file in independent blocks. Only one block is held in memory
+ * at a time: each framed output is wrapped in its own Blob as soon as it is
+ * written, so the browser can page it out and the buffer can be released,
+ * and the archive header is prepended once the CRC is known.
+ * Codecs with a concatenable standard format (gzip members, LZ4 frames) are
+ * written as one standard file per block instead, since joined together they
+ * are themselves a valid file of that format.
+ */
+export async function compressBlobInBlocks(
+  file: Blob,
+  fileName: string,
+  algorithm: CompressionAlgorithm,
+  blockSize = DEFAULT_BLOCK_SIZE,
+  onProgress?: (progress: ProcessingProgress) => void,
+  options?: AlgorithmParameters
+): Promise<{ result: CompressionResult; archive: Blob; archiveName: string }> {
+  if (!getCodec(algorithm).capabilities.streaming) {
+    throw new Error(`${getCodec(algorithm).info.name} cannot compress files in blocks`);
+  }
+  const startTime = performance.now();
+  const blockCount = Math.ceil(file.size / blockSize);
+  const frames: Blob[] = [];
+  // Codec name and parameters do not depend on the input
+  const { algorithm: algorithmName, parameters } = await compressData(algorithm, new Uint8Array(0), undefined, options);
+  const standard = downloadFormatFor(algorithm, parameters);
+  const members = standard?.concatenable ? standard : null;
+  let payloadSize = 0;
+  let checksum = 0;
+  let blockIndex = 0;
+  let restoredSize = 0;
+  let restoredChecksum = 0;
+  let verificationError: string | undefined;
+  const analyzer = new DataAnalyzer();
+
+  const reader = createBlockStream(file, blockSize).getReader();
+  for (;;) {
+    const { done, value: block } = await reader.read();
+    if (done) break;
+
+    onProgress?.({
+      stage: 'Compressing',
+      progress: (blockIndex / blockCount) * 100,
+      message: `Compressing block ${blockIndex + 1}/${blockCount}...`
+    });
+
+    checksum = updateCrc32(checksum, block);
+    analyzer.update(block);
+    const { compressedData } = await compressData(algorithm, block, undefined, options);
+    const frame = members
+      ? members.wrap(compressedData!, block, blockIndex === 0 ? fileName : '')
+      : writeBlockFrame(block.length, compressedData!);
+    frames.push(new Blob([frame]));
+    payloadSize += frame.length;
+    blockIndex++;
+
+    // Each block is decoded as soon as it is written, so verifying never holds the whole file
+    if (verificationError === undefined) {
+      try {
+        const decoded = members ? members.unwrap(frame).data : await decompressPayload(algorithm, compressedData!);
+        restoredChecksum = updateCrc32(restoredChecksum, decoded);
+        restoredSize += decoded.length;
+      } catch (error) {
+        verificationError = error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+
+  const header = writeArchiveHeader({
+    algorithm,
+    blocked: true,
+    fileName,
+    originalSize: file.size,
+    crc32: checksum,
+    parameters: { ...parameters, streamBlockSize: blockSize }
+  });
+
+  onProgress?.({ stage: 'Complete', progress: 100, message: `Compressed ${blockCount} blocks` });
+
+  const originalSize = file.size;
+  const analysis = analyzer.finish();
+  return {
+    result: {
+      originalSize,
+      compressedSize: payloadSize,
+      compressionRatio: compressionRatio(originalSize, payloadSize),
+      processingTime: performance.now() - startTime,
+      algorithm: algorithmName,
+      algorithmId: algorithm,
+      parameters: { ...parameters, streamBlockSize: blockSize },
+      blockCount,
+      entropy: analysis.entropy0,
+      analysis,
+      verified: verificationError === undefined && restoredSize === originalSize && restoredChecksum === checksum,
+      verificationError
+    },
+    archive: new Blob(members ? frames : [header, ...frames], { type: 'application/octet-stream' }),
+    archiveName: `${fileName}${members ? members.extensions[0] : ARCHIVE_EXTENSION}`
+  };
+}
+
+/** Reads just the archive header, e.g. to identify an uploaded file */
+export async function readArchiveHeaderFromBlob(archive: Blob): Promise<ArchiveHeader> {
+  const headerLength = readArchiveHeaderLength(await readSlice(archive, 0, ARCHIVE_PREFIX_SIZE));
+  return readArchiveHeader(await readSlice(archive, 0, headerLength));
+}
+
+/**
+ * Restores an archive held in a Blob. Block mode archives are decoded one
+ * frame at a time, each decoded block going straight into its own Blob, so
+ * neither the compressed nor the restored file needs to fit in memory.
+ */
+export async function decompressArchiveBlob(
+  archive: Blob,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<RestoredFile> {
+  const header = await readArchiveHeaderFromBlob(archive);
+
+  if (!header.blocked) {
+    onProgress?.({ stage: 'Decompressing', progress: 10, message: 'Decoding archive...' });
+    const { data, checksumValid } = await decompressData(new Uint8Array(await archive.arrayBuffer()));
+    return { format: 'dcpa', header, data: new Blob([data]), checksumName: 'CRC-32', checksumValid };
+  }
+
+  const parts: Blob[] = [];
+  let offset = header.payloadOffset;
+  let restoredSize = 0;
+  let checksum = 0;
+
+  while (offset < archive.size) {
+    const { originalLength, compressedLength } = readBlockFrameHeader(
+      await readSlice(archive, offset, offset + BLOCK_FRAME_HEADER_SIZE)
+    );
+    const payloadStart = offset + BLOCK_FRAME_HEADER_SIZE;
+    if (payloadStart + compressedLength > archive.size) {
+      throw new Error('Archive block is truncated');
+    }
+
+    const block = await decompressPayload(header.algorithm, await readSlice(archive, payloadStart, payloadStart + compressedLength));
+    if (block.length !== originalLength) {
+      throw new Error('Archive block decoded to an unexpected length');
+    }
+
+    checksum = updateCrc32(checksum, block);
+    restoredSize += block.length;
+    parts.push(new Blob([block]));
+    offset = payloadStart + compressedLength;
+
+    onProgress?.({
+      stage: 'Decompressing',
+      progress: ((offset - header.payloadOffset) / (archive.size - header.payloadOffset)) * 100,
+      message: `Decoded ${parts.length} blocks...`
+    });
+  }
+
+  return {
+    format: 'dcpa',
+    header,
+    data: new Blob(parts),
+    checksumName: 'CRC-32',
+    checksumValid: restoredSize === header.originalSize && checksum === header.crc32
+  };
+}
+
+/** Bytes read to identify an upload; enough for a gzip header with FEXTRA, FNAME and FCOMMENT */
+const IDENTIFY_PEEK_SIZE = 64 * 1024;
+
+export function detectContainerFormat(prefix: Uint8Array): ContainerFormat | null {
+  if (isArchive(prefix)) return 'dcpa';
+  return detectStandardFormat(prefix)?.format.name ?? null;
+}
+
+// Names the restored file after the upload when the stream does not store one
+function restoredFileName(uploadName: string, format: StandardFormat, storedName?: string): string {
+  if (storedName) return storedName.split(/[\\/]/).pop() || storedName;
+  if (/\.tgz$/i.test(uploadName)) return `${uploadName.slice(0, -4)}.tar`;
+  const extension = format.extensions.find(candidate => uploadName.toLowerCase().endsWith(candidate));
+  const stripped = extension ? uploadName.slice(0, -extension.length) : '';
+  return stripped || `${uploadName}.out`;
+}
+
+const UNRECOGNISED_FILE = 'This file is not a recognised archive or standard compressed file.';
+
+/** Identifies an uploaded .dcpa archive or registered standard format from its first bytes */
+export async function identifyCompressedFile(
+  blob: Blob,
+  fileName: string
+): Promise<{ format: ContainerFormat; algorithm: CompressionAlgorithm; fileName: string }> {
+  const prefix = await readSlice(blob, 0, IDENTIFY_PEEK_SIZE);
+  if (isArchive(prefix)) {
+    const header = await readArchiveHeaderFromBlob(blob);
+    return { format: 'dcpa', algorithm: header.algorithm, fileName: header.fileName };
+  }
+
+  const detected = detectStandardFormat(prefix);
+  if (!detected) throw new Error(UNRECOGNISED_FILE);
+  const { codec, format } = detected;
+  return { format: format.name, algorithm: codec.id, fileName: restoredFileName(fileName, format, format.storedFileName?.(prefix)) };
+}
+
+/**
+ * Restores any supported compressed upload. Standard formats carry no portal
+ * header, so one is synthesized from the decoded data; the format's own
+ * checksum (CRC-32, Adler-32, xxHash32...) decides `checksumValid`.
+ */
+export async function restoreCompressedFile(
+  blob: Blob,
+  fileName: string,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<RestoredFile> {
+  const prefix = await readSlice(blob, 0, ARCHIVE_PREFIX_SIZE);
+  if (isArchive(prefix)) return decompressArchiveBlob(blob, onProgress);
+  const detected = detectStandardFormat(prefix);
+  if (!detected) throw new Error(UNRECOGNISED_FILE);
+  const { codec, format } = detected;
+
+  onProgress?.({ stage: 'Decompressing', progress: 10, message: `Decoding ${format.name} stream...` });
+  const restored = format.unwrap(new Uint8Array(await blob.arrayBuffer()));
+
+  const header: ArchiveHeader = {
+    formatVersion: 0,
+    algorithm: codec.id,
+    blocked: false,
+    fileName: restoredFileName(fileName, format, restored.fileName),
+    originalSize: restored.data.length,
+    crc32: crc32(restored.data),
+    parameters: format.parameters,
+    payloadOffset: 0
+  };
+  return {
+    format: format.name,
+    header,
+    data: new Blob([restored.data]),
+    checksumName: format.checksumName,
+    checksumValid: restored.checksumValid
+  };
+}
+
+/**
+ * Decodes a finished download exactly as it would be decoded if uploaded
+ * again, container included, and compares it with the input by length and
+ * CRC-32.
+ */
+export async function verifyArchive(
+  archive: Blob,
+  archiveName: string,
+  original: Uint8Array,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<{ verified: boolean; verificationError?: string }> {
+  onProgress?.({ stage: 'Verifying', progress: 100, message: 'Decoding the output to verify it...' });
+  try {
+    const restored = await restoreCompressedFile(archive, archiveName);
+    const data = new Uint8Array(await restored.data.arrayBuffer());
+    return { verified: data.length === original.length && crc32(data) === crc32(original) };
+  } catch (error) {
+    return { verified: false, verificationError: error instanceof Error ? error.message : String(error) };
+  }
+}
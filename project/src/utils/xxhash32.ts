@@ -0,0 +1,55 @@
+// xxHash32, the checksum used by LZ4 frames
+const PRIME1 = 0x9e3779b1;
+const PRIME2 = 0x85ebca77;
+const PRIME3 = 0xc2b2ae3d;
+const PRIME4 = 0x27d4eb2f;
+const PRIME5 = 0x165667b1;
+
+function rotateLeft(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24);
+}
+
+function round(accumulator: number, lane: number): number {
+  return Math.imul(rotateLeft((accumulator + Math.imul(lane, PRIME2)) | 0, 13), PRIME1);
+}
+
+export function xxhash32(data: Uint8Array, seed = 0): number {
+  const length = data.length;
+  let offset = 0;
+  let hash: number;
+
+  if (length >= 16) {
+    let v1 = (seed + PRIME1 + PRIME2) | 0;
+    let v2 = (seed + PRIME2) | 0;
+    let v3 = seed | 0;
+    let v4 = (seed - PRIME1) | 0;
+    for (; offset <= length - 16; offset += 16) {
+      v1 = round(v1, readUint32(data, offset));
+      v2 = round(v2, readUint32(data, offset + 4));
+      v3 = round(v3, readUint32(data, offset + 8));
+      v4 = round(v4, readUint32(data, offset + 12));
+    }
+    hash = (rotateLeft(v1, 1) + rotateLeft(v2, 7) + rotateLeft(v3, 12) + rotateLeft(v4, 18)) | 0;
+  } else {
+    hash = (seed + PRIME5) | 0;
+  }
+
+  hash = (hash + length) | 0;
+  for (; offset <= length - 4; offset += 4) {
+    hash = Math.imul(rotateLeft((hash + Math.imul(readUint32(data, offset), PRIME3)) | 0, 17), PRIME4);
+  }
+  for (; offset < length; offset++) {
+    hash = Math.imul(rotateLeft((hash + Math.imul(data[offset], PRIME5)) | 0, 11), PRIME1);
+  }
+
+  hash ^= hash >>> 15;
+  hash = Math.imul(hash, PRIME2);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, PRIME3);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
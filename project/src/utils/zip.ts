@@ -0,0 +1,477 @@
+import { CompressionResult, ProcessingProgress, ZipEntry, ZipInputFile, ZipMethod } from '../types';
+import { crc32, updateCrc32 } from './crc32';
+import { compressionRatio } from './compressionRatio';
+import { deflateRaw, inflateRaw } from './deflate';
+import { STREAMING_THRESHOLD, readSlice } from './streamingCompression';
+
+// ZIP (PKWARE APPNOTE 6.3) without encryption or spanning. Entries are stored
+// or deflated with a CRC-32, names are written as UTF-8 with general purpose
+// bit 11 set, and every record is little-endian. ZIP64 fields are read, since
+// tools that stream their output write them, but never written.
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE = 56;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+/** 2.0: the first version with DEFLATE and directories */
+const VERSION_NEEDED = 20;
+/** Upper byte 3 (Unix) so `unzip` applies the permission bits in the external attributes */
+const VERSION_MADE_BY = (3 << 8) | VERSION_NEEDED;
+/** Regular file, rw-r--r-- */
+const UNIX_FILE_ATTRIBUTES = (0o100644 << 16) >>> 0;
+
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+const methodNames: Record<number, string> = {
+  0: 'Stored',
+  8: 'Deflated',
+  9: 'Deflate64',
+  12: 'bzip2',
+  14: 'LZMA',
+  93: 'Zstandard',
+  95: 'XZ',
+  99: 'AES encrypted'
+};
+
+export const ZIP_EXTENSION = '.zip';
+
+export function zipMethodName(method: number): string {
+  return methodNames[method] ?? `Method ${method}`;
+}
+
+export function isZipEntrySupported(entry: ZipEntry): boolean {
+  return !entry.isDirectory && !entry.encrypted && (entry.method === METHOD_STORED || entry.method === METHOD_DEFLATED);
+}
+
+export function isZip(data: Uint8Array): boolean {
+  if (data.length < 4) return false;
+  const signature = new DataView(data.buffer, data.byteOffset, 4).getUint32(0, true);
+  // An empty archive is nothing but its end of central directory record
+  return signature === LOCAL_HEADER_SIGNATURE || signature === END_OF_CENTRAL_DIRECTORY_SIGNATURE;
+}
+
+export async function isZipFile(blob: Blob): Promise<boolean> {
+  return isZip(await readSlice(blob, 0, 4));
+}
+
+// MS-DOS date and time in local time, with two-second resolution and no dates before 1980
+function toDosDateTime(timestamp: number): { date: number; time: number } {
+  const moment = new Date(timestamp);
+  if (moment.getFullYear() < 1980) return { date: (1 << 5) | 1, time: 0 };
+  return {
+    date: ((moment.getFullYear() - 1980) << 9) | ((moment.getMonth() + 1) << 5) | moment.getDate(),
+    time: (moment.getHours() << 11) | (moment.getMinutes() << 5) | (moment.getSeconds() >> 1)
+  };
+}
+
+function fromDosDateTime(date: number, time: number): number {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+}
+
+// Archive paths use forward slashes and may not climb out of the extraction directory
+function sanitizeEntryName(name: string): string {
+  const parts = name.replace(/\\/g, '/').split('/').filter(part => part !== '' && part !== '.' && part !== '..');
+  return parts.join('/') || 'file';
+}
+
+// "report.csv", "report (2).csv", ... so `unzip` never asks to overwrite
+function uniqueEntryName(name: string, used: Set<string>): string {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  for (let copy = 2; used.has(candidate.toLowerCase()); copy++) {
+    candidate = `${stem} (${copy})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function crc32OfBlob(blob: Blob): Promise<number> {
+  let crc = 0;
+  for (let offset = 0; offset < blob.size; offset += STREAMING_THRESHOLD) {
+    crc = updateCrc32(crc, await readSlice(blob, offset, offset + STREAMING_THRESHOLD));
+  }
+  return crc;
+}
+
+interface WrittenEntry {
+  nameBytes: Uint8Array;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  date: number;
+  time: number;
+  offset: number;
+}
+
+function writeLocalHeader(entry: WrittenEntry): Uint8Array {
+  const header = new Uint8Array(LOCAL_HEADER_SIZE + entry.nameBytes.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, VERSION_NEEDED, true);
+  view.setUint16(6, FLAG_UTF8, true);
+  view.setUint16(8, entry.method, true);
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, entry.compressedSize, true);
+  view.setUint32(22, entry.size, true);
+  view.setUint16(26, entry.nameBytes.length, true);
+  view.setUint16(28, 0, true);
+  header.set(entry.nameBytes, LOCAL_HEADER_SIZE);
+  return header;
+}
+
+function writeCentralDirectory(entries: WrittenEntry[], directoryOffset: number): Uint8Array {
+  const directorySize = entries.reduce((total, entry) => total + CENTRAL_HEADER_SIZE + entry.nameBytes.length, 0);
+  const output = new Uint8Array(directorySize + END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(output.buffer);
+
+  let position = 0;
+  for (const entry of entries) {
+    view.setUint32(position, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(position + 4, VERSION_MADE_BY, true);
+    view.setUint16(position + 6, VERSION_NEEDED, true);
+    view.setUint16(position + 8, FLAG_UTF8, true);
+    view.setUint16(position + 10, entry.method, true);
+    view.setUint16(position + 12, entry.time, true);
+    view.setUint16(position + 14, entry.date, true);
+    view.setUint32(position + 16, entry.crc, true);
+    view.setUint32(position + 20, entry.compressedSize, true);
+    view.setUint32(position + 24, entry.size, true);
+    view.setUint16(position + 28, entry.nameBytes.length, true);
+    // Extra field, comment, disk number and internal attributes stay zero
+    view.setUint32(position + 38, UNIX_FILE_ATTRIBUTES, true);
+    view.setUint32(position + 42, entry.offset, true);
+    output.set(entry.nameBytes, position + CENTRAL_HEADER_SIZE);
+    position += CENTRAL_HEADER_SIZE + entry.nameBytes.length;
+  }
+
+  view.setUint32(position, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(position + 8, entries.length, true);
+  view.setUint16(position + 10, entries.length, true);
+  view.setUint32(position + 12, directorySize, true);
+  view.setUint32(position + 16, directoryOffset, true);
+  return output;
+}
+
+/**
+ * Builds a ZIP archive one entry at a time. Deflated entries fall back to
+ * stored when deflating does not shrink them, and files too large to hold in
+ * memory are always stored, with their bytes passed through as Blob slices.
+ * The method returned is 'deflated' only if at least one entry was.
+ */
+export async function createZip(
+  files: ZipInputFile[],
+  method: ZipMethod,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<{ archive: Blob; method: ZipMethod }> {
+  if (files.length > MAX_ENTRIES) {
+    throw new Error(`A ZIP archive holds at most ${MAX_ENTRIES} entries without ZIP64`);
+  }
+
+  const encoder = new TextEncoder();
+  const usedNames = new Set<string>();
+  const totalBytes = files.reduce((total, file) => total + file.data.size, 0);
+  const parts: BlobPart[] = [];
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+  let bytesDone = 0;
+
+  for (const [index, file] of files.entries()) {
+    const name = uniqueEntryName(sanitizeEntryName(file.name), usedNames);
+    const report = (fraction: number) => onProgress?.({
+      stage: 'Zipping',
+      progress: totalBytes > 0 ? ((bytesDone + fraction * file.data.size) / totalBytes) * 100 : 100,
+      message: `Adding ${name} (${index + 1}/${files.length})...`
+    });
+    report(0);
+
+    let body: Uint8Array | Blob;
+    let crc: number;
+    let entryMethod = METHOD_STORED;
+    if (file.data.size > STREAMING_THRESHOLD) {
+      body = file.data;
+      crc = await crc32OfBlob(file.data);
+    } else {
+      const data = new Uint8Array(await file.data.arrayBuffer());
+      crc = crc32(data);
+      body = data;
+      if (method === 'deflated') {
+        const deflated = deflateRaw(data, { onProgress: report });
+        if (deflated.length < data.length) {
+          body = deflated;
+          entryMethod = METHOD_DEFLATED;
+        }
+      }
+    }
+
+    const compressedSize = body instanceof Blob ? body.size : body.length;
+    if (file.data.size > MAX_OFFSET || offset + compressedSize > MAX_OFFSET) {
+      throw new Error('The ZIP archive would exceed 4 GB, which needs ZIP64');
+    }
+
+    const entry: WrittenEntry = {
+      nameBytes: encoder.encode(name),
+      method: entryMethod,
+      crc,
+      compressedSize,
+      size: file.data.size,
+      ...toDosDateTime(file.lastModified),
+      offset
+    };
+    const localHeader = writeLocalHeader(entry);
+    parts.push(localHeader, body);
+    written.push(entry);
+    offset += localHeader.length + compressedSize;
+    bytesDone += file.data.size;
+  }
+
+  parts.push(writeCentralDirectory(written, offset));
+  onProgress?.({ stage: 'Complete', progress: 100, message: `Zipped ${files.length} files` });
+  return {
+    archive: new Blob(parts, { type: 'application/zip' }),
+    method: written.some(entry => entry.method === METHOD_DEFLATED) ? 'deflated' : 'stored'
+  };
+}
+
+/** Zips files and reports the archive as a compression result, so it shows like any other job */
+export async function zipFiles(
+  files: ZipInputFile[],
+  method: ZipMethod,
+  archiveName: string,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<{ result: CompressionResult; archive: Blob; archiveName: string }> {
+  const startTime = performance.now();
+  const { archive, method: usedMethod } = await createZip(files, method, onProgress);
+  const originalSize = files.reduce((total, file) => total + file.data.size, 0);
+  const compressedSize = archive.size;
+  const verification = await verifyZip(archive, files, onProgress);
+
+  return {
+    result: {
+      originalSize,
+      compressedSize,
+      compressionRatio: compressionRatio(originalSize, compressedSize),
+      processingTime: performance.now() - startTime,
+      algorithm: usedMethod === 'deflated' ? 'ZIP (DEFLATE)' : 'ZIP (stored)',
+      // Stored entries are copied as they are, so no codec is involved
+      algorithmId: usedMethod === 'deflated' ? 'deflate' : 'stored',
+      parameters: { container: 'zip', method: usedMethod, entries: files.length },
+      ...verification
+    },
+    archive,
+    archiveName
+  };
+}
+
+// Code page 437, the encoding of names without the UTF-8 flag, from 0x80 up
+const CP437_HIGH = 'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+
+function decodeEntryName(bytes: Uint8Array, utf8: boolean): string {
+  if (utf8) return new TextDecoder().decode(bytes);
+  // Many tools write UTF-8 without setting the flag; only fall back to CP437 when it is not valid UTF-8
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return Array.from(bytes, byte => byte < 0x80 ? String.fromCharCode(byte) : CP437_HIGH[byte - 0x80]).join('');
+  }
+}
+
+/** Lists a ZIP archive's entries from its central directory, reading only the end of the file */
+export async function readZipDirectory(archive: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, archive.size - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_LENGTH);
+  const tail = await readSlice(archive, tailStart, archive.size);
+  const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  // The record sits before a comment of up to 64 KB, so search backwards for a signature whose comment length fits
+  let end = -1;
+  for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE
+      && i + END_OF_CENTRAL_DIRECTORY_SIZE + tailView.getUint16(i + 20, true) <= tail.length) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP archive (no end of central directory record)');
+
+  if (tailView.getUint16(end + 4, true) !== 0 || tailView.getUint16(end + 6, true) !== 0) {
+    throw new Error('Split or spanned ZIP archives are not supported');
+  }
+  let entryCount = tailView.getUint16(end + 10, true);
+  let directorySize = tailView.getUint32(end + 12, true);
+  let directoryOffset = tailView.getUint32(end + 16, true);
+
+  // A ZIP64 locator just before the record points at the 64-bit copy of these fields
+  if (end >= ZIP64_LOCATOR_SIZE && tailView.getUint32(end - ZIP64_LOCATOR_SIZE, true) === ZIP64_LOCATOR_SIGNATURE) {
+    const recordOffset = Number(tailView.getBigUint64(end - ZIP64_LOCATOR_SIZE + 8, true));
+    const record = await readSlice(archive, recordOffset, recordOffset + ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE);
+    const recordView = new DataView(record.buffer, record.byteOffset, record.byteLength);
+    if (record.length < ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE || recordView.getUint32(0, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error('ZIP64 end of central directory record is corrupt');
+    }
+    entryCount = Number(recordView.getBigUint64(32, true));
+    directorySize = Number(recordView.getBigUint64(40, true));
+    directoryOffset = Number(recordView.getBigUint64(48, true));
+  }
+
+  if (directoryOffset + directorySize > tailStart + end) {
+    throw new Error('ZIP central directory is truncated');
+  }
+
+  const directory = await readSlice(archive, directoryOffset, directoryOffset + directorySize);
+  const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+  const entries: ZipEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (position + CENTRAL_HEADER_SIZE > directory.length || view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('ZIP central directory is corrupt');
+    }
+    const flags = view.getUint16(position + 8, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const nameStart = position + CENTRAL_HEADER_SIZE;
+    const name = decodeEntryName(directory.subarray(nameStart, nameStart + nameLength), (flags & FLAG_UTF8) !== 0);
+
+    let size = view.getUint32(position + 24, true);
+    let compressedSize = view.getUint32(position + 20, true);
+    let localHeaderOffset = view.getUint32(position + 42, true);
+    // Saturated 32-bit fields are continued, in this order, in the ZIP64 extra field
+    if (size === MAX_OFFSET || compressedSize === MAX_OFFSET || localHeaderOffset === MAX_OFFSET) {
+      const extraEnd = nameStart + nameLength + extraLength;
+      for (let field = nameStart + nameLength; field + 4 <= extraEnd; field += 4 + view.getUint16(field + 2, true)) {
+        if (view.getUint16(field, true) !== ZIP64_EXTRA_FIELD_ID) continue;
+        let value = field + 4;
+        const next = () => {
+          const read = Number(view.getBigUint64(value, true));
+          value += 8;
+          return read;
+        };
+        if (size === MAX_OFFSET) size = next();
+        if (compressedSize === MAX_OFFSET) compressedSize = next();
+        if (localHeaderOffset === MAX_OFFSET) localHeaderOffset = next();
+        break;
+      }
+    }
+
+    entries.push({
+      name,
+      method: view.getUint16(position + 10, true),
+      crc32: view.getUint32(position + 16, true),
+      compressedSize,
+      size,
+      lastModified: fromDosDateTime(view.getUint16(position + 14, true), view.getUint16(position + 12, true)),
+      isDirectory: name.endsWith('/'),
+      encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+      localHeaderOffset
+    });
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+// Where an entry's data begins: the local header repeats the name but may carry a different extra field, so read its lengths
+async function entryDataStart(archive: Blob, entry: ZipEntry): Promise<number> {
+  const header = await readSlice(archive, entry.localHeaderOffset, entry.localHeaderOffset + LOCAL_HEADER_SIZE);
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  if (header.length < LOCAL_HEADER_SIZE || view.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Local header of ${entry.name} is corrupt`);
+  }
+  const dataStart = entry.localHeaderOffset + LOCAL_HEADER_SIZE + view.getUint16(26, true) + view.getUint16(28, true);
+  if (dataStart + entry.compressedSize > archive.size) throw new Error(`${entry.name} is truncated`);
+  return dataStart;
+}
+
+/** Extracts one entry, verifying its size and CRC-32 */
+export async function extractZipEntry(
+  archive: Blob,
+  entry: ZipEntry,
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<Uint8Array> {
+  if (entry.encrypted) throw new Error(`${entry.name} is encrypted; password-protected entries are not supported`);
+  if (entry.method !== METHOD_STORED && entry.method !== METHOD_DEFLATED) {
+    throw new Error(`${entry.name} uses ${zipMethodName(entry.method)} compression, which is not supported`);
+  }
+
+  const dataStart = await entryDataStart(archive, entry);
+
+  onProgress?.({ stage: 'Extracting', progress: 10, message: `Extracting ${entry.name}...` });
+  const compressed = await readSlice(archive, dataStart, dataStart + entry.compressedSize);
+  const data = entry.method === METHOD_DEFLATED ? inflateRaw(compressed) : compressed;
+
+  if (data.length !== entry.size || crc32(data) !== entry.crc32) {
+    throw new Error(`CRC-32 mismatch in ${entry.name}; the archive is corrupt`);
+  }
+  onProgress?.({ stage: 'Complete', progress: 100, message: `Extracted ${entry.name}` });
+  return data;
+}
+
+/**
+ * Reads a freshly written archive back through the same reader used for
+ * extraction and checks every entry against the file it was made from, by
+ * size and CRC-32. Entries too large to hold in memory were stored, so they
+ * are checksummed straight from the archive instead of extracted.
+ */
+export async function verifyZip(
+  archive: Blob,
+  files: ZipInputFile[],
+  onProgress?: (progress: ProcessingProgress) => void
+): Promise<{ verified: boolean; verificationError?: string }> {
+  onProgress?.({ stage: 'Verifying', progress: 100, message: 'Reading the archive back to verify it...' });
+  try {
+    const entries = await readZipDirectory(archive);
+    if (entries.length !== files.length) {
+      throw new Error(`The archive lists ${entries.length} entries for ${files.length} files`);
+    }
+
+    for (const [index, entry] of entries.entries()) {
+      const file = files[index];
+      let restoredCrc: number;
+      if (file.data.size > STREAMING_THRESHOLD) {
+        if (entry.method !== METHOD_STORED || entry.size !== file.data.size) throw new Error(`${entry.name} was not stored as written`);
+        const dataStart = await entryDataStart(archive, entry);
+        restoredCrc = await crc32OfBlob(archive.slice(dataStart, dataStart + entry.compressedSize));
+        if (restoredCrc !== entry.crc32) throw new Error(`CRC-32 mismatch in ${entry.name}; the archive is corrupt`);
+      } else {
+        const data = await extractZipEntry(archive, entry);
+        if (data.length !== file.data.size) throw new Error(`${entry.name} restored to ${data.length} bytes instead of ${file.data.size}`);
+        restoredCrc = crc32(data);
+      }
+      if (restoredCrc !== await crc32OfBlob(file.data)) {
+        throw new Error(`${entry.name} does not match ${file.name}`);
+      }
+    }
+    return { verified: true };
+  } catch (error) {
+    return { verified: false, verificationError: error instanceof Error ? error.message : String(error) };
+  }
+}
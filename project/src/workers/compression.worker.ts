@@ -0,0 +1,93 @@
+import '../utils/codecs';
+import { compressData, createArchive } from '../utils/compressionAlgorithms';
+import { compressBlobInBlocks, restoreCompressedFile, verifyArchive } from '../utils/streamingCompression';
+import { compareCodecs } from '../utils/compareCodecs';
+import { analyzeData } from '../utils/dataAnalysis';
+import { extractZipEntry, zipFiles } from '../utils/zip';
+import { ProgressTracker } from '../utils/progressTracker';
+import { runBenchmark } from '../utils/benchmark';
+import { isCodecAvailable, listEncoders } from '../utils/codecRegistry';
+import { CompressionWorkerRequest, CompressionWorkerResponse, ProcessingProgress } from '../types';
+
+function post(message: CompressionWorkerResponse, buffers: ArrayBufferLike[] = []) {
+  self.postMessage(message, { transfer: Array.from(new Set(buffers)) as Transferable[] });
+}
+
+// Codecs report progress as often as they like; the tracker throttles it by
+// time so the main thread is not flooded with messages, and adds telemetry.
+// `totalBytes` is the input the job works through.
+function createProgressForwarder(totalBytes: number) {
+  const tracker = new ProgressTracker(totalBytes);
+
+  return (progress: ProcessingProgress) => {
+    const update = tracker.update(progress);
+    if (update) post({ type: 'progress', progress: update });
+  };
+}
+
+self.onmessage = async (event: MessageEvent<CompressionWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'compress': {
+        const forwardProgress = createProgressForwarder(request.data.byteLength);
+        const result = await compressData(request.algorithm, new Uint8Array(request.data), forwardProgress, request.options);
+        const { archive, archiveName } = createArchive(result, request.fileName);
+        const archiveBlob = new Blob([archive], { type: 'application/octet-stream' });
+        const verification = await verifyArchive(archiveBlob, archiveName, result.originalData!, forwardProgress);
+        const analysis = analyzeData(result.originalData!);
+        post(
+          { type: 'compressed', result: { ...result, ...verification, analysis }, archive: archiveBlob, archiveName },
+          [result.compressedData!.buffer, result.originalData!.buffer]
+        );
+        break;
+      }
+      case 'compress-blocks': {
+        const { result, archive, archiveName } = await compressBlobInBlocks(
+          request.file,
+          request.fileName,
+          request.algorithm,
+          request.blockSize,
+          createProgressForwarder(request.file.size),
+          request.options
+        );
+        post({ type: 'compressed', result, archive, archiveName });
+        break;
+      }
+      case 'decompress': {
+        const result = await restoreCompressedFile(request.archive, request.fileName, createProgressForwarder(request.archive.size));
+        post({ type: 'decompressed', result });
+        break;
+      }
+      case 'compare': {
+        const data = new Uint8Array(request.data);
+        // Every codec reads the whole input once
+        const passes = listEncoders().filter(isCodecAvailable).length;
+        const entries = await compareCodecs(data, request.fileName, createProgressForwarder(data.length * passes));
+        post({ type: 'compared', entries, analysis: analyzeData(data) });
+        break;
+      }
+      case 'zip': {
+        const totalBytes = request.files.reduce((total, file) => total + file.data.size, 0);
+        const { result, archive, archiveName } = await zipFiles(request.files, request.method, request.archiveName, createProgressForwarder(totalBytes));
+        post({ type: 'compressed', result, archive, archiveName });
+        break;
+      }
+      case 'unzip-entry': {
+        const data = await extractZipEntry(request.archive, request.entry, createProgressForwarder(request.entry.size));
+        post({ type: 'unzipped', data: new Blob([data]) });
+        break;
+      }
+      case 'benchmark': {
+        const { config } = request;
+        const passes = listEncoders().filter(isCodecAvailable).length * config.iterations;
+        const rows = await runBenchmark(config, createProgressForwarder(config.corpora.length * config.corpusSize * passes));
+        post({ type: 'benchmarked', rows });
+        break;
+      }
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};